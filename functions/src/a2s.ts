@@ -0,0 +1,273 @@
+import * as dgram from 'dgram';
+
+// Steam server queries: https://developer.valvesoftware.com/wiki/Server_queries
+const SIMPLE_HEADER = 0xffffffff;
+const SPLIT_HEADER = 0xfffffffe;
+const A2S_INFO = 0x54;
+const A2S_PLAYER = 0x55;
+const S2A_INFO = 0x49;
+const S2A_PLAYER = 0x44;
+const S2C_CHALLENGE = 0x41;
+
+const DEFAULT_TIMEOUT_MS = 1_500;
+// cache corto: varios clientes mirando el mismo server no disparan una query cada uno
+const STATUS_CACHE_TTL_MS = 10_000;
+
+export type A2sInfo = {
+  name: string;
+  map: string;
+  folder: string;
+  game: string;
+  players: number;
+  maxPlayers: number;
+  bots: number;
+};
+
+export type A2sPlayer = { name: string; score: number; durationSec: number };
+
+export type LiveServerStatus = {
+  online: boolean;
+  map: string | null;
+  players: number;
+  maxPlayers: number;
+  playerNames: string[];
+  latencyMs: number | null;
+  checkedAt: string;
+};
+
+export class A2sError extends Error {}
+
+// Lector secuencial del payload (little endian, strings terminadas en \0)
+class PayloadReader {
+  private offset = 0;
+
+  constructor(private readonly buf: Buffer) {}
+
+  byte(): number {
+    this.ensure(1);
+    return this.buf.readUInt8(this.offset++);
+  }
+
+  short(): number {
+    this.ensure(2);
+    const v = this.buf.readInt16LE(this.offset);
+    this.offset += 2;
+    return v;
+  }
+
+  long(): number {
+    this.ensure(4);
+    const v = this.buf.readInt32LE(this.offset);
+    this.offset += 4;
+    return v;
+  }
+
+  float(): number {
+    this.ensure(4);
+    const v = this.buf.readFloatLE(this.offset);
+    this.offset += 4;
+    return v;
+  }
+
+  string(): string {
+    const end = this.buf.indexOf(0, this.offset);
+    if (end < 0) throw new A2sError('Unterminated string in A2S response');
+    const v = this.buf.toString('utf8', this.offset, end);
+    this.offset = end + 1;
+    return v;
+  }
+
+  private ensure(bytes: number): void {
+    if (this.offset + bytes > this.buf.length) throw new A2sError('Truncated A2S response');
+  }
+}
+
+function header(type: number): Buffer {
+  const buf = Buffer.alloc(5);
+  buf.writeUInt32LE(SIMPLE_HEADER, 0);
+  buf.writeUInt8(type, 4);
+  return buf;
+}
+
+export function infoRequest(challenge: Buffer | null): Buffer {
+  const parts = [header(A2S_INFO), Buffer.from('Source Engine Query\0', 'latin1')];
+  return Buffer.concat(challenge ? [...parts, challenge] : parts);
+}
+
+export function playerRequest(challenge: Buffer | null): Buffer {
+  return Buffer.concat([header(A2S_PLAYER), challenge ?? Buffer.from([0xff, 0xff, 0xff, 0xff])]);
+}
+
+/**
+ * Payload de S2A_INFO (sin el header FFFFFFFF + 'I').
+ */
+export function parseInfo(payload: Buffer): A2sInfo {
+  const r = new PayloadReader(payload);
+  r.byte(); // protocol
+  const name = r.string();
+  const map = r.string();
+  const folder = r.string();
+  const game = r.string();
+  r.short(); // app id
+  const players = r.byte();
+  const maxPlayers = r.byte();
+  const bots = r.byte();
+  return { name, map, folder, game, players, maxPlayers, bots };
+}
+
+/**
+ * Payload de S2A_PLAYER (sin el header FFFFFFFF + 'D').
+ */
+export function parsePlayers(payload: Buffer): A2sPlayer[] {
+  const r = new PayloadReader(payload);
+  const count = r.byte();
+  const players: A2sPlayer[] = [];
+  for (let i = 0; i < count; i++) {
+    r.byte(); // index
+    const name = r.string();
+    const score = r.long();
+    const durationSec = Math.round(r.float());
+    players.push({ name, score, durationSec });
+  }
+  return players;
+}
+
+/**
+ * Manda una query y resuelve con el payload de la respuesta esperada.
+ * Si el server contesta con un challenge se reenvía la query con ese challenge.
+ * latencyMs = ida y vuelta de la última query (la que obtuvo la respuesta).
+ */
+function query(
+  host: string,
+  port: number,
+  build: (challenge: Buffer | null) => Buffer,
+  expected: number,
+  timeoutMs: number
+): Promise<{ payload: Buffer; latencyMs: number }> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket('udp4');
+    let sentAt = 0;
+    let challenges = 0;
+    let settled = false;
+
+    const finish = (err: Error | null, result?: { payload: Buffer; latencyMs: number }) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+      if (err) reject(err);
+      else resolve(result!);
+    };
+
+    const send = (challenge: Buffer | null) => {
+      sentAt = Date.now();
+      socket.send(build(challenge), port, host, (err) => {
+        if (err) finish(new A2sError(`A2S send failed: ${err.message}`));
+      });
+    };
+
+    const timer = setTimeout(() => {
+      finish(new A2sError(`A2S timeout after ${timeoutMs}ms (${host}:${port})`));
+    }, timeoutMs);
+
+    socket.on('message', (msg) => {
+      if (msg.length < 5) return;
+      const head = msg.readUInt32LE(0);
+      if (head === SPLIT_HEADER) {
+        finish(new A2sError('Split A2S responses are not supported'));
+        return;
+      }
+      if (head !== SIMPLE_HEADER) return;
+
+      const type = msg.readUInt8(4);
+      if (type === S2C_CHALLENGE && msg.length >= 9) {
+        // A2S_PLAYER puede pedir challenge de nuevo; más de dos ya es un loop
+        if (++challenges > 2) {
+          finish(new A2sError('A2S challenge loop'));
+          return;
+        }
+        send(msg.subarray(5, 9));
+        return;
+      }
+      if (type === expected) {
+        finish(null, { payload: msg.subarray(5), latencyMs: Date.now() - sentAt });
+      }
+    });
+
+    socket.on('error', (err) => finish(new A2sError(`A2S socket error: ${err.message}`)));
+
+    send(null);
+  });
+}
+
+export async function queryInfo(
+  host: string,
+  port: number,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<{ info: A2sInfo; latencyMs: number }> {
+  const { payload, latencyMs } = await query(host, port, infoRequest, S2A_INFO, timeoutMs);
+  return { info: parseInfo(payload), latencyMs };
+}
+
+export async function queryPlayers(
+  host: string,
+  port: number,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<A2sPlayer[]> {
+  const { payload } = await query(host, port, playerRequest, S2A_PLAYER, timeoutMs);
+  return parsePlayers(payload);
+}
+
+const statusCache = new Map<string, { at: number; status: Promise<LiveServerStatus> }>();
+
+async function fetchStatus(
+  host: string,
+  port: number,
+  timeoutMs: number
+): Promise<LiveServerStatus> {
+  const checkedAt = new Date().toISOString();
+  try {
+    const [{ info, latencyMs }, players] = await Promise.all([
+      queryInfo(host, port, timeoutMs),
+      // la lista de jugadores es opcional: algunos servers la tienen deshabilitada
+      queryPlayers(host, port, timeoutMs).catch(() => [] as A2sPlayer[]),
+    ]);
+    return {
+      online: true,
+      map: info.map || null,
+      players: info.players,
+      maxPlayers: info.maxPlayers,
+      playerNames: players.map((p) => p.name).filter((name) => name.length > 0),
+      latencyMs,
+      checkedAt,
+    };
+  } catch {
+    return {
+      online: false,
+      map: null,
+      players: 0,
+      maxPlayers: 0,
+      playerNames: [],
+      latencyMs: null,
+      checkedAt,
+    };
+  }
+}
+
+/**
+ * Estado del server (A2S_INFO + A2S_PLAYER) cacheado STATUS_CACHE_TTL_MS por host:port.
+ * Nunca falla: si no responde devuelve online = false.
+ */
+export function getLiveServerStatus(
+  host: string,
+  port: number,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<LiveServerStatus> {
+  const key = `${host}:${port}`;
+  const cached = statusCache.get(key);
+  if (cached && Date.now() - cached.at < STATUS_CACHE_TTL_MS) return cached.status;
+
+  const status = fetchStatus(host, port, timeoutMs);
+  statusCache.set(key, { at: Date.now(), status });
+  return status;
+}
@@ -0,0 +1,95 @@
+import * as admin from 'firebase-admin';
+
+export type SteamUser = {
+  uid: string;
+  steamId: string;
+  token: admin.auth.DecodedIdToken;
+};
+
+// Helper: extrae steamId desde uid "steam:<id>"
+export function steamIdFromUid(uid: string | undefined | null): string | null {
+  if (!uid?.startsWith('steam:')) return null;
+  const steamId = uid.slice('steam:'.length);
+  return /^\d{15,20}$/.test(steamId) ? steamId : null;
+}
+
+function readBearerToken(req: any): string | null {
+  const header = String(req.get('authorization') ?? '');
+  const m = header.match(/^Bearer\s+(.+)$/i);
+  return m?.[1]?.trim() || null;
+}
+
+/**
+ * Verifica el ID token de Firebase (header Authorization: Bearer ...).
+ * - 401 si falta o es inválido
+ * - 403 si el usuario no es un usuario Steam (ej: anónimo)
+ * Devuelve null si ya respondió el error.
+ */
+export async function requireSteamUser(req: any, res: any): Promise<SteamUser | null> {
+  const idToken = readBearerToken(req);
+  if (!idToken) {
+    res.status(401).send('Missing Authorization bearer token');
+    return null;
+  }
+
+  let token: admin.auth.DecodedIdToken;
+  try {
+    token = await admin.auth().verifyIdToken(idToken);
+  } catch {
+    res.status(401).send('Invalid or expired ID token');
+    return null;
+  }
+
+  const steamId = steamIdFromUid(token.uid);
+  if (!steamId) {
+    res.status(403).send('Solo usuarios logueados con Steam');
+    return null;
+  }
+
+  return { uid: token.uid, steamId, token };
+}
+
+// Admin = custom claim admin:true en el usuario steam:
+export function isAdmin(user: SteamUser): boolean {
+  return user.token.admin === true;
+}
+
+/**
+ * Igual que requireSteamUser pero además exige claim admin (403 si no lo tiene).
+ */
+export async function requireAdmin(req: any, res: any): Promise<SteamUser | null> {
+  const user = await requireSteamUser(req, res);
+  if (!user) return null;
+
+  if (!isAdmin(user)) {
+    res.status(403).send('Solo administradores');
+    return null;
+  }
+  return user;
+}
+
+/**
+ * Sincroniza el claim admin con la allowlist de steamIds (ADMIN_STEAM_IDS) en cada login.
+ * Con la allowlist vacía no saca claims (los puestos a mano siguen valiendo).
+ * Se llama antes de devolver el custom token, así el primer ID token ya trae el claim.
+ */
+export async function syncAdminClaim(uid: string, steamId: string, allowlist: string[]) {
+  const allowed = allowlist.map((id) => id.trim()).filter((id) => id.length > 0);
+
+  let user: admin.auth.UserRecord;
+  try {
+    user = await admin.auth().getUser(uid);
+  } catch (e: any) {
+    if (e?.code !== 'auth/user-not-found') throw e;
+    // primer login: el usuario se crea recién con signInWithCustomToken
+    user = await admin.auth().createUser({ uid });
+  }
+
+  const claims = user.customClaims ?? {};
+  const hasClaim = claims.admin === true;
+  const shouldHave = allowed.includes(steamId) || (hasClaim && allowed.length === 0);
+  if (hasClaim === shouldHave) return;
+
+  const { admin: _previous, ...rest } = claims;
+  await admin.auth().setCustomUserClaims(uid, shouldHave ? { ...rest, admin: true } : rest);
+}
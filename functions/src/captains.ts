@@ -0,0 +1,79 @@
+import { createHash, randomBytes } from 'crypto';
+
+export type CaptainStrategy = 'random' | 'rating' | 'volunteers' | 'least_recent';
+
+export const CAPTAIN_STRATEGIES: CaptainStrategy[] = [
+  'random',
+  'rating',
+  'volunteers',
+  'least_recent',
+];
+
+export type CaptainCandidate = {
+  steamId: string;
+  rating: number;
+  volunteer: boolean;
+  // millis del último match como líder (0 = nunca)
+  lastCaptainedAt: number;
+};
+
+export type CaptainSelection = {
+  strategy: CaptainStrategy;
+  seed: string;
+  // cómo se ordena con el seed, para que cualquiera pueda verificarlo
+  algorithm: string;
+  // ranking completo (el primero de cada equipo / los dos primeros son líderes)
+  order: string[];
+  leaders: [string, string];
+};
+
+export const CAPTAIN_SEED_ALGORITHM = 'sha256(seed + ":" + steamId) ascendente';
+
+export function isCaptainStrategy(value: unknown): value is CaptainStrategy {
+  return typeof value === 'string' && CAPTAIN_STRATEGIES.includes(value as CaptainStrategy);
+}
+
+export function newSeed(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Clave uniforme y reproducible por jugador: con el seed publicado
+ * se puede recalcular el mismo orden.
+ */
+export function seededKey(seed: string, steamId: string): string {
+  return createHash('sha256').update(`${seed}:${steamId}`).digest('hex');
+}
+
+function compareBy<T>(...keys: ((item: T) => number | string)[]) {
+  return (a: T, b: T) => {
+    for (const key of keys) {
+      const ka = key(a);
+      const kb = key(b);
+      if (ka < kb) return -1;
+      if (ka > kb) return 1;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Ordena candidatos según la estrategia. Los empates (y la estrategia random)
+ * se resuelven con el orden derivado del seed.
+ */
+export function rankCaptains(
+  candidates: CaptainCandidate[],
+  strategy: CaptainStrategy,
+  seed: string
+): string[] {
+  const seeded = (c: CaptainCandidate) => seededKey(seed, c.steamId);
+
+  const sorters: Record<CaptainStrategy, (a: CaptainCandidate, b: CaptainCandidate) => number> = {
+    random: compareBy(seeded),
+    rating: compareBy((c) => -c.rating, seeded),
+    volunteers: compareBy((c) => (c.volunteer ? 0 : 1), seeded),
+    least_recent: compareBy((c) => c.lastCaptainedAt, seeded),
+  };
+
+  return [...candidates].sort(sorters[strategy]).map((c) => c.steamId);
+}
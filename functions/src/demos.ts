@@ -0,0 +1,300 @@
+import * as admin from 'firebase-admin';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { LobbyError, liveMatchRef } from './lobby.js';
+import { MATCH_HISTORY_COLLECTION } from './history.js';
+
+// Demos en Storage: demos/{matchId}/{mapNumber}.dem (metadata en matchHistory/{matchId}.demos)
+export const DEMOS_PREFIX = 'demos';
+
+// Tope del body de un request HTTP a Cloud Functions v2 (Cloud Run): una demo más grande
+// recibe 413 antes de llegar a la función, así que no se archiva
+export const MAX_DEMO_BYTES = 32 * 1024 * 1024;
+
+// Headers que MatchZy manda con cada demo (matchzy_demo_upload_url)
+const DEMO_HEADER_PREFIXES = ['MatchZy', 'Get5'];
+
+export type DemoInfo = {
+  map: string | null;
+  durationSec: number | null;
+};
+
+export type DemoUpload = {
+  matchId: string;
+  mapNumber: number;
+  fileName: string | null;
+};
+
+/**
+ * Comandos de consola para que MatchZy suba la demo de cada mapa a /api/matchzy/demo?lobbyId=...
+ */
+export function matchzyDemoUploadCommands(
+  uploadUrl: string,
+  headerKey: string,
+  secret: string
+): string[] {
+  return [
+    `matchzy_demo_upload_url "${uploadUrl}"`,
+    `matchzy_demo_upload_header_key "${headerKey}"`,
+    `matchzy_demo_upload_header_value "${secret}"`,
+  ];
+}
+
+/**
+ * matchId / mapNumber / nombre de archivo de los headers de MatchZy (o los de Get5).
+ */
+export function parseDemoHeaders(get: (name: string) => string | undefined): DemoUpload {
+  const header = (suffix: string) => {
+    for (const prefix of DEMO_HEADER_PREFIXES) {
+      const value = get(`${prefix}-${suffix}`);
+      if (value) return value.trim();
+    }
+    return '';
+  };
+
+  const matchId = header('MatchId');
+  if (!/^\d{1,20}$/.test(matchId)) throw new LobbyError(400, 'Invalid MatchZy-MatchId');
+
+  const mapNumber = Number(header('MapNumber'));
+  if (!Number.isInteger(mapNumber) || mapNumber < 0 || mapNumber > 4) {
+    throw new LobbyError(400, 'Invalid MatchZy-MapNumber');
+  }
+
+  const fileName = header('FileName')
+    .replace(/[^\w.-]/g, '_')
+    .slice(0, 120);
+  return { matchId, mapNumber, fileName: fileName || null };
+}
+
+// Varint de protobuf (los mensajes de la demo van prefijados con cmd / tick / size)
+function readVarint(buf: Buffer, offset: number): { value: number; next: number } | null {
+  let value = 0;
+  for (let shift = 0, i = offset; i < buf.length && shift < 35; shift += 7, i++) {
+    const byte = buf[i];
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) return { value, next: i + 1 };
+  }
+  return null;
+}
+
+// Payload del mensaje de la demo en offset (null si está comprimido o cortado)
+function demoMessageAt(buf: Buffer, offset: number): Buffer | null {
+  const cmd = readVarint(buf, offset);
+  const tick = cmd && readVarint(buf, cmd.next);
+  const size = tick && readVarint(buf, tick.next);
+  if (!cmd || !size) return null;
+  // DEM_IsCompressed (snappy): no lo descomprimimos
+  if (cmd.value & 0x40) return null;
+  const end = size.next + size.value;
+  return end <= buf.length ? buf.subarray(size.next, end) : null;
+}
+
+// Primer valor del campo protobuf dado (solo tipos escalares y length-delimited)
+function protoField(msg: Buffer, field: number): Buffer | number | null {
+  let offset = 0;
+  while (offset < msg.length) {
+    const key = readVarint(msg, offset);
+    if (!key) return null;
+    const wire = key.value & 0x7;
+    const num = Math.floor(key.value / 8);
+    offset = key.next;
+
+    if (wire === 0) {
+      const v = readVarint(msg, offset);
+      if (!v) return null;
+      if (num === field) return v.value;
+      offset = v.next;
+    } else if (wire === 2) {
+      const len = readVarint(msg, offset);
+      if (!len || len.next + len.value > msg.length) return null;
+      if (num === field) return msg.subarray(len.next, len.next + len.value);
+      offset = len.next + len.value;
+    } else if (wire === 5) {
+      if (offset + 4 > msg.length) return null;
+      if (num === field) return msg.readFloatLE(offset);
+      offset += 4;
+    } else if (wire === 1) {
+      offset += 8;
+    } else {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Bytes del principio que se guardan para leer el header (map_name va al comienzo)
+const DEMO_HEAD_BYTES = 64 * 1024;
+// CDemoFileInfo es chico: tope para no acumular de más si el offset apunta mal
+const DEMO_FILE_INFO_MAX_BYTES = 1024 * 1024;
+
+/**
+ * Lee mapa y duración de una demo de CS2 (PBDEMS2) a medida que pasan los chunks:
+ * el header trae map_name y el CDemoFileInfo del final (offset en los bytes 8-11) trae
+ * playback_time. Solo guarda el principio y el file info, no la demo entera.
+ */
+export class DemoInfoReader {
+  size = 0;
+  private head = Buffer.alloc(0);
+  private fileInfoOffset: number | null = null;
+  private fileInfo: Buffer[] = [];
+  private fileInfoBytes = 0;
+
+  push(chunk: Buffer): void {
+    const start = this.size;
+    this.size += chunk.length;
+
+    if (this.head.length < DEMO_HEAD_BYTES) {
+      const missing = DEMO_HEAD_BYTES - this.head.length;
+      this.head = Buffer.concat([this.head, chunk.subarray(0, missing)]);
+    }
+    if (this.fileInfoOffset === null && this.isCs2Demo()) {
+      this.fileInfoOffset = this.head.readInt32LE(8);
+    }
+
+    const offset = this.fileInfoOffset;
+    if (offset !== null && offset >= 16 && this.size > offset) {
+      if (this.fileInfoBytes >= DEMO_FILE_INFO_MAX_BYTES) return;
+      const part = chunk.subarray(Math.max(offset - start, 0));
+      this.fileInfo.push(part);
+      this.fileInfoBytes += part.length;
+    }
+  }
+
+  private isCs2Demo(): boolean {
+    return this.head.length >= 16 && this.head.toString('latin1', 0, 8) === 'PBDEMS2\0';
+  }
+
+  /**
+   * Se llama con la demo completa. Un archivo que no es demo de CS2 queda sin datos;
+   * una demo con el offset del file info fuera del archivo se rechaza.
+   */
+  result(): DemoInfo {
+    const info: DemoInfo = { map: null, durationSec: null };
+    if (!this.isCs2Demo()) return info;
+
+    const offset = this.fileInfoOffset ?? -1;
+    if (offset < 16 || offset >= this.size) {
+      throw new LobbyError(400, 'Invalid demo: file info offset out of range');
+    }
+
+    const header = demoMessageAt(this.head, 16);
+    const map = header && protoField(header, 5);
+    if (Buffer.isBuffer(map) && map.length > 0) info.map = map.toString('utf8');
+
+    const fileInfo = demoMessageAt(Buffer.concat(this.fileInfo), 0);
+    const playbackTime = fileInfo && protoField(fileInfo, 1);
+    if (typeof playbackTime === 'number' && Number.isFinite(playbackTime) && playbackTime > 0) {
+      info.durationSec = Math.round(playbackTime);
+    }
+    return info;
+  }
+}
+
+export function parseDemoInfo(buf: Buffer): DemoInfo {
+  const reader = new DemoInfoReader();
+  reader.push(buf);
+  return reader.result();
+}
+
+export function demoTooLargeMessage(): string {
+  return `Demo too large: the upload limit is ${MAX_DEMO_BYTES / (1024 * 1024)} MiB`;
+}
+
+/**
+ * El matchId tiene que ser el match actual del lobby o uno ya archivado
+ * (la demo del último mapa puede llegar después de que el match se cerró).
+ */
+async function matchMaplist(lobbyId: string, matchId: string): Promise<string[]> {
+  const live = (await liveMatchRef(lobbyId).get()).data();
+  if (live?.matchId != null && String(live.matchId) === matchId) {
+    return Array.isArray(live.maplist) ? live.maplist : live.map ? [live.map] : [];
+  }
+
+  const archived = await admin.firestore().collection(MATCH_HISTORY_COLLECTION).doc(matchId).get();
+  if (!archived.exists || archived.get('lobbyId') !== lobbyId) {
+    throw new LobbyError(409, `matchid ${matchId} no corresponde a este lobby`);
+  }
+  const maplist = archived.get('maplist');
+  return Array.isArray(maplist) ? maplist : [];
+}
+
+/**
+ * Sube la demo a Storage (upload resumable) y registra su metadata en
+ * matchHistory/{matchId}.demos.{mapNumber}. Reintentos de la misma demo pisan el archivo
+ * y la entrada. Rechaza con 413 lo que pase de MAX_DEMO_BYTES.
+ */
+export async function storeMatchDemo(
+  lobbyId: string,
+  upload: DemoUpload,
+  source: Readable
+): Promise<{ path: string; size: number }> {
+  const { matchId, mapNumber } = upload;
+  const maplist = await matchMaplist(lobbyId, matchId);
+
+  const path = `${DEMOS_PREFIX}/${matchId}/${mapNumber}.dem`;
+  const downloadName = upload.fileName ?? `${matchId}_${mapNumber}.dem`;
+  const file = admin.storage().bucket().file(path);
+
+  const reader = new DemoInfoReader();
+  let info: DemoInfo = { map: null, durationSec: null };
+  try {
+    await pipeline(
+      source,
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          reader.push(chunk);
+          if (reader.size > MAX_DEMO_BYTES) {
+            callback(new LobbyError(413, demoTooLargeMessage()));
+            return;
+          }
+          callback(null, chunk);
+        },
+        // valida antes de que el archivo quede subido
+        flush(callback) {
+          try {
+            if (reader.size === 0) throw new LobbyError(400, 'Empty demo');
+            info = reader.result();
+            callback();
+          } catch (e: any) {
+            callback(e);
+          }
+        },
+      }),
+      file.createWriteStream({
+        resumable: true,
+        contentType: 'application/octet-stream',
+        metadata: {
+          contentDisposition: `attachment; filename="${downloadName}"`,
+          metadata: { lobbyId, matchId, mapNumber: String(mapNumber) },
+        },
+      })
+    );
+  } catch (e) {
+    await file.delete({ ignoreNotFound: true }).catch(() => {});
+    throw e;
+  }
+
+  // merge: el archivo del match (archiveMatch) también hace merge y no pisa las demos
+  await admin
+    .firestore()
+    .collection(MATCH_HISTORY_COLLECTION)
+    .doc(matchId)
+    .set(
+      {
+        demos: {
+          [mapNumber]: {
+            mapNumber,
+            map: maplist[mapNumber] ?? info.map,
+            path,
+            fileName: downloadName,
+            size: reader.size,
+            durationSec: info.durationSec,
+            uploadedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+        },
+      },
+      { merge: true }
+    );
+
+  return { path, size: reader.size };
+}
@@ -0,0 +1,447 @@
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { LobbyError, lobbyRef } from './lobby.js';
+import { lobbySizeFor } from './modes.js';
+import type { ServerConnection } from './servers.js';
+
+// config/discord = webhooks de Discord (uno por comunidad / canal) y qué eventos manda cada uno
+export const DISCORD_CONFIG_PATH = 'config/discord';
+
+export type DiscordEvent =
+  | 'queue_milestone'
+  | 'queue_full'
+  | 'leaders_chosen'
+  | 'map_decided'
+  | 'match_started'
+  | 'match_result'
+  | 'match_cancelled';
+
+export const DISCORD_EVENTS: DiscordEvent[] = [
+  'queue_milestone',
+  'queue_full',
+  'leaders_chosen',
+  'map_decided',
+  'match_started',
+  'match_result',
+  'match_cancelled',
+];
+
+export type DiscordWebhook = {
+  name: string;
+  url: string;
+  events: DiscordEvent[];
+  // jugadores en cola que disparan queue_milestone (ej: [8] = "faltan 2")
+  queueMilestones: number[];
+};
+
+export type DiscordConfig = { webhooks: DiscordWebhook[] };
+
+export type DiscordEmbed = {
+  title: string;
+  description?: string;
+  color: number;
+  fields?: Array<{ name: string; value: string; inline?: boolean }>;
+  timestamp?: string;
+};
+
+export type DiscordNotification = {
+  event: DiscordEvent;
+  embed: DiscordEmbed;
+  // queue_milestone: la cola pasó de previousSize a queueSize
+  queueSize?: number;
+  previousSize?: number;
+};
+
+const MAX_WEBHOOKS = 10;
+const WEBHOOK_URL_RE =
+  /^https:\/\/(?:ptb\.|canary\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/;
+const SEND_TIMEOUT_MS = 5_000;
+const USERNAME = 'ClouseT CS2';
+
+const COLORS: Record<DiscordEvent, number> = {
+  queue_milestone: 0x3498db,
+  queue_full: 0xf1c40f,
+  leaders_chosen: 0x9b59b6,
+  map_decided: 0x1abc9c,
+  match_started: 0x2ecc71,
+  match_result: 0xe67e22,
+  match_cancelled: 0x95a5a6,
+};
+
+export function isDiscordEvent(value: unknown): value is DiscordEvent {
+  return typeof value === 'string' && DISCORD_EVENTS.includes(value as DiscordEvent);
+}
+
+function parseMilestones(value: unknown): number[] {
+  if (!Array.isArray(value)) return [];
+  const sizes = value.map(Number).filter((n) => Number.isInteger(n) && n > 0 && n < 100);
+  return [...new Set(sizes)].sort((a, b) => a - b);
+}
+
+/**
+ * Valida los webhooks que manda el panel de admin (400 si algo no cierra).
+ */
+export function parseDiscordWebhooks(value: unknown): DiscordWebhook[] {
+  if (!Array.isArray(value)) throw new LobbyError(400, 'webhooks must be an array');
+  if (value.length > MAX_WEBHOOKS) {
+    throw new LobbyError(400, `Máximo ${MAX_WEBHOOKS} webhooks`);
+  }
+
+  return value.map((raw: any, idx) => {
+    const name = typeof raw?.name === 'string' ? raw.name.trim().slice(0, 40) : '';
+    const url = typeof raw?.url === 'string' ? raw.url.trim() : '';
+    if (!WEBHOOK_URL_RE.test(url)) {
+      throw new LobbyError(400, `Webhook ${idx + 1}: URL de webhook de Discord inválida`);
+    }
+    const events = Array.isArray(raw?.events) ? raw.events : [];
+    if (!events.every(isDiscordEvent)) {
+      throw new LobbyError(400, `Webhook ${idx + 1}: evento inválido`);
+    }
+    return {
+      name: name || `Webhook ${idx + 1}`,
+      url,
+      events: [...new Set(events as DiscordEvent[])],
+      queueMilestones: parseMilestones(raw?.queueMilestones),
+    };
+  });
+}
+
+// Lectura tolerante: un webhook mal cargado a mano se ignora en vez de cortar el resto
+function readDiscordConfig(data: any): DiscordConfig {
+  const raw = Array.isArray(data?.webhooks) ? data.webhooks : [];
+  const webhooks: DiscordWebhook[] = [];
+  for (const hook of raw) {
+    try {
+      webhooks.push(...parseDiscordWebhooks([hook]));
+    } catch {
+      logger.warn('Webhook de Discord inválido en config/discord (ignorado)');
+    }
+  }
+  return { webhooks };
+}
+
+export async function getDiscordConfig(): Promise<DiscordConfig> {
+  const snap = await admin.firestore().doc(DISCORD_CONFIG_PATH).get();
+  return readDiscordConfig(snap.data());
+}
+
+export async function saveDiscordConfig(webhooks: unknown): Promise<DiscordConfig> {
+  const config = { webhooks: parseDiscordWebhooks(webhooks) };
+  await admin
+    .firestore()
+    .doc(DISCORD_CONFIG_PATH)
+    .set({ ...config, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+  return config;
+}
+
+/**
+ * ¿Este webhook quiere la notificación? queue_milestone además tiene que cruzar
+ * alguno de sus queueMilestones.
+ */
+export function wantsNotification(hook: DiscordWebhook, n: DiscordNotification): boolean {
+  if (!hook.events.includes(n.event)) return false;
+  if (n.event !== 'queue_milestone') return true;
+
+  const size = n.queueSize ?? 0;
+  const previous = n.previousSize ?? 0;
+  return hook.queueMilestones.some((m) => previous < m && m <= size);
+}
+
+function ids(value: unknown): string[] {
+  return Array.isArray(value) ? value.map((id) => String(id)) : [];
+}
+
+function lobbyTitle(lobbyId: string, data: any): string {
+  return typeof data?.name === 'string' && data.name ? data.name : lobbyId;
+}
+
+type NameOf = (steamId: string) => string;
+
+function playerList(players: string[], nameOf: NameOf): string {
+  return players.length > 0 ? players.map(nameOf).join('\n') : '—';
+}
+
+/**
+ * Notificaciones que salen de un write del draft (lobbies/{lobbyId}):
+ * la cola crece, se llena, o se eligen los líderes (o los equipos, en modo balanced).
+ */
+export function draftNotifications(
+  lobbyId: string,
+  before: any,
+  after: any,
+  nameOf: NameOf
+): DiscordNotification[] {
+  if (!after) return [];
+  const title = lobbyTitle(lobbyId, after);
+  const lobbySize = Number(after.playersPerTeam) * 2 || lobbySizeFor(after.mode);
+  const out: DiscordNotification[] = [];
+
+  const previousSize = ids(before?.queue).length;
+  const queueSize = ids(after.queue).length;
+  const waiting = after.estado === 'esperando_jugadores';
+  if (waiting && queueSize > previousSize && queueSize < lobbySize) {
+    out.push({
+      event: 'queue_milestone',
+      queueSize,
+      previousSize,
+      embed: {
+        title: `${title}: ${queueSize}/${lobbySize} en cola`,
+        description: `Faltan ${lobbySize - queueSize} para arrancar.`,
+        color: COLORS.queue_milestone,
+      },
+    });
+  }
+
+  if (before?.estado !== 'confirmando_jugadores' && after.estado === 'confirmando_jugadores') {
+    out.push({
+      event: 'queue_full',
+      embed: {
+        title: `${title}: cola completa (${lobbySize}/${lobbySize})`,
+        description: 'Ready check en marcha: acepten el match en el dashboard.',
+        color: COLORS.queue_full,
+      },
+    });
+  }
+
+  if (before?.estado === 'seleccionando_lideres' && after.estado === 'armando_equipos') {
+    const leader = (team: any) => {
+      const [id] = ids(team?.players);
+      return id ? nameOf(id) : '—';
+    };
+    out.push({
+      event: 'leaders_chosen',
+      embed: {
+        title: `${title}: líderes elegidos`,
+        color: COLORS.leaders_chosen,
+        fields: [
+          { name: after.team1?.name ?? 'Team A', value: leader(after.team1), inline: true },
+          { name: after.team2?.name ?? 'Team B', value: leader(after.team2), inline: true },
+        ],
+      },
+    });
+  }
+
+  // balanced: los equipos salen armados por rating y se pasa directo al veto
+  if (before?.estado === 'seleccionando_lideres' && after.estado === 'seleccionando_mapa') {
+    const team = (t: any, fallback: string) => ({
+      name: t?.name ?? fallback,
+      value: playerList(ids(t?.players), nameOf),
+      inline: true,
+    });
+    out.push({
+      event: 'leaders_chosen',
+      embed: {
+        title: `${title}: equipos armados`,
+        description: 'Equipos balanceados por rating: arranca el veto de mapas.',
+        color: COLORS.leaders_chosen,
+        fields: [team(after.team1, 'Team A'), team(after.team2, 'Team B')],
+      },
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Mapas definidos y servidor asignado (lo manda startMatchIfReady): va con el connect.
+ */
+export function mapDecidedNotification(
+  title: string,
+  live: any,
+  connection: ServerConnection,
+  nameOf: NameOf
+): DiscordNotification {
+  const maplist = ids(live?.maplist).length > 0 ? ids(live.maplist) : ids([live?.map ?? '']);
+  return {
+    event: 'map_decided',
+    embed: {
+      title: `${title}: ${maplist.filter(Boolean).join(' → ') || 'mapa'}`,
+      description: [
+        `Servidor: **${connection.name}** (${connection.region})`,
+        `\`connect ${connection.host}:${connection.port}\``,
+        connection.connectUrl,
+      ].join('\n'),
+      color: COLORS.map_decided,
+      fields: [
+        {
+          name: live?.team1?.name ?? 'Team A',
+          value: playerList(ids(live?.team1?.players), nameOf),
+          inline: true,
+        },
+        {
+          name: live?.team2?.name ?? 'Team B',
+          value: playerList(ids(live?.team2?.players), nameOf),
+          inline: true,
+        },
+      ],
+    },
+  };
+}
+
+// going_live del primer mapa de la serie (evento de MatchZy)
+export function matchStartedNotification(title: string, live: any): DiscordNotification {
+  const team1 = live?.team1?.name ?? 'Team A';
+  const team2 = live?.team2?.name ?? 'Team B';
+  const map = ids(live?.maplist)[0] ?? live?.map ?? null;
+  return {
+    event: 'match_started',
+    embed: {
+      title: `${title}: arrancó ${team1} vs ${team2}`,
+      description: map ? `Mapa: ${map}` : undefined,
+      color: COLORS.match_started,
+    },
+  };
+}
+
+/**
+ * Resultado o cancelación cuando se archiva el match (matchHistory/{matchId}).
+ */
+export function historyNotification(entry: any): DiscordNotification | null {
+  const team1 = entry?.team1?.name ?? 'Team A';
+  const team2 = entry?.team2?.name ?? 'Team B';
+  const vs = `${team1} vs ${team2}`;
+
+  if (entry?.outcome === 'cancelled') {
+    return {
+      event: 'match_cancelled',
+      embed: {
+        title: `Match cancelado: ${vs}`,
+        description: entry.cancelReason ?? undefined,
+        color: COLORS.match_cancelled,
+      },
+    };
+  }
+  if (entry?.outcome !== 'finished') return null;
+
+  const winner = entry.winner === 'team1' ? team1 : entry.winner === 'team2' ? team2 : null;
+  const results = Array.isArray(entry.mapResults) ? entry.mapResults : [];
+  const score1 = entry.seriesScore?.team1;
+  const score2 = entry.seriesScore?.team2;
+  return {
+    event: 'match_result',
+    embed: {
+      title: winner ? `Ganó ${winner}` : `Terminó ${vs}`,
+      description:
+        score1 != null && score2 != null ? `${team1} ${score1} - ${score2} ${team2}` : vs,
+      color: COLORS.match_result,
+      fields: results.map((r: any) => ({
+        name: r?.map ?? `Mapa ${Number(r?.mapNumber ?? 0) + 1}`,
+        value: `${r?.team1Score ?? 0} - ${r?.team2Score ?? 0}`,
+        inline: true,
+      })),
+    },
+  };
+}
+
+// Nombre del lobby para los embeds (el live/current no lo tiene)
+export async function lobbyTitleOf(lobbyId: string): Promise<string> {
+  const snap = await lobbyRef(lobbyId).get();
+  return lobbyTitle(lobbyId, snap.data());
+}
+
+/**
+ * personaName de los jugadores (para los embeds). Sin perfil queda el steamId.
+ */
+export async function profileNames(steamIds: string[]): Promise<NameOf> {
+  const unique = [...new Set(steamIds)];
+  const names = new Map<string, string>();
+  if (unique.length > 0) {
+    const db = admin.firestore();
+    const snaps = await db.getAll(...unique.map((id) => db.collection('steamProfiles').doc(id)));
+    snaps.forEach((snap, idx) => {
+      const personaName = snap.get('personaName');
+      if (typeof personaName === 'string' && personaName.trim()) {
+        names.set(unique[idx], personaName.trim());
+      }
+    });
+  }
+  return (steamId) => names.get(steamId) ?? steamId;
+}
+
+async function postWebhook(hook: DiscordWebhook, embeds: DiscordEmbed[]): Promise<void> {
+  const r = await fetch(hook.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: USERNAME, embeds }),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+  if (!r.ok) {
+    const t = await r.text().catch(() => '');
+    throw new Error(`Discord HTTP ${r.status} ${t}`.trim());
+  }
+}
+
+/**
+ * Manda las notificaciones a cada webhook que las quiera (una request por webhook).
+ * Nunca falla: Discord caído no puede frenar el lobby.
+ */
+export async function notifyDiscord(notifications: DiscordNotification[]): Promise<void> {
+  if (notifications.length === 0) return;
+
+  try {
+    const { webhooks } = await getDiscordConfig();
+    const now = new Date().toISOString();
+    await Promise.all(
+      webhooks.map(async (hook) => {
+        const embeds = notifications
+          .filter((n) => wantsNotification(hook, n))
+          .map((n) => ({ ...n.embed, timestamp: now }));
+        if (embeds.length === 0) return;
+        try {
+          await postWebhook(hook, embeds);
+        } catch (e: any) {
+          logger.warn(`Discord webhook "${hook.name}" error: ${e?.message ?? e}`);
+        }
+      })
+    );
+  } catch (e: any) {
+    logger.error(`notifyDiscord error: ${e?.message ?? e}`);
+  }
+}
+
+// ====== Entradas desde los triggers / el start (nunca fallan) ======
+function logNotifyError(where: string, e: any): void {
+  logger.error(`Discord ${where} error: ${e?.message ?? e}`);
+}
+
+export async function notifyDraftChange(lobbyId: string, before: any, after: any): Promise<void> {
+  try {
+    // nombres solo al elegir líderes (el resto de los writes del draft no los usa)
+    const leadersChosen =
+      before?.estado === 'seleccionando_lideres' && after?.estado === 'armando_equipos';
+    const leaders = [ids(after?.team1?.players)[0], ids(after?.team2?.players)[0]];
+    const nameOf = leadersChosen
+      ? await profileNames(leaders.filter(Boolean))
+      : (steamId: string) => steamId;
+    await notifyDiscord(draftNotifications(lobbyId, before, after, nameOf));
+  } catch (e: any) {
+    logNotifyError('draft', e);
+  }
+}
+
+export async function notifyMapDecided(
+  lobbyId: string,
+  live: any,
+  connection: ServerConnection
+): Promise<void> {
+  try {
+    const players = [...ids(live?.team1?.players), ...ids(live?.team2?.players)];
+    const [title, nameOf] = await Promise.all([lobbyTitleOf(lobbyId), profileNames(players)]);
+    await notifyDiscord([mapDecidedNotification(title, live, connection, nameOf)]);
+  } catch (e: any) {
+    logNotifyError('map_decided', e);
+  }
+}
+
+export async function notifyMatchStarted(lobbyId: string, live: any): Promise<void> {
+  try {
+    await notifyDiscord([matchStartedNotification(await lobbyTitleOf(lobbyId), live)]);
+  } catch (e: any) {
+    logNotifyError('match_started', e);
+  }
+}
+
+export async function notifyMatchArchived(entry: any): Promise<void> {
+  const notification = historyNotification(entry);
+  if (notification) await notifyDiscord([notification]);
+}
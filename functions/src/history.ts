@@ -0,0 +1,133 @@
+import * as admin from 'firebase-admin';
+import type { TeamKey } from './lobby.js';
+
+export const MATCH_HISTORY_COLLECTION = 'matchHistory';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+export type MatchOutcome = {
+  result: 'finished' | 'cancelled';
+  // finalize = ambos líderes confirmaron, series_end = evento de MatchZy,
+  // cancel = /api/match/cancel, timeout = el scheduler cerró un match en_curso colgado,
+  // admin = reset forzado desde el panel de admin
+  closedBy: 'finalize' | 'series_end' | 'cancel' | 'timeout' | 'admin';
+  winner?: TeamKey | null;
+  cancelReason?: string | null;
+  cancelledBy?: string | null;
+};
+
+function playersOf(team: any): string[] {
+  return Array.isArray(team?.players) ? team.players.map((id: unknown) => String(id)) : [];
+}
+
+/**
+ * Archiva el match en matchHistory/{matchId} (dentro de la tx del reset).
+ * draft = lobbies/{lobbyId}, current = su live/current (resultados live de MatchZy).
+ */
+export function archiveMatch(
+  tx: admin.firestore.Transaction,
+  lobbyId: string,
+  matchId: string,
+  draft: any,
+  current: any,
+  outcome: MatchOutcome
+): void {
+  const team1 = playersOf(draft.team1);
+  const team2 = playersOf(draft.team2);
+
+  const entry = {
+    matchId,
+    lobbyId,
+    outcome: outcome.result,
+    closedBy: outcome.closedBy,
+    winner: outcome.winner ?? current?.live?.winner ?? null,
+    cancelReason: outcome.cancelReason ?? null,
+    cancelledBy: outcome.cancelledBy ?? null,
+    team1: { name: draft.team1?.name ?? 'Team A', players: team1 },
+    team2: { name: draft.team2?.name ?? 'Team B', players: team2 },
+    leaders: { team1: team1[0] ?? null, team2: team2[0] ?? null },
+    players: [...team1, ...team2],
+    captainSelection: draft.captainSelection ?? null,
+    map: draft.map ?? null,
+    seriesFormat: draft.seriesFormat ?? 'bo1',
+    mode: draft.mode ?? '5v5',
+    maplist: Array.isArray(draft.maplist) ? draft.maplist : draft.map ? [draft.map] : [],
+    mapSides: Array.isArray(draft.mapSides) ? draft.mapSides : [],
+    veto: {
+      mapPool: Array.isArray(draft.mapPool) ? draft.mapPool : [],
+      bannedMaps: Array.isArray(draft.bannedMaps) ? draft.bannedMaps : [],
+      log: Array.isArray(draft.vetoLog) ? draft.vetoLog : [],
+    },
+    mapResults: Array.isArray(current?.mapResults) ? current.mapResults : [],
+    seriesScore: {
+      team1: current?.live?.team1SeriesScore ?? null,
+      team2: current?.live?.team2SeriesScore ?? null,
+    },
+    publishedAt: draft.publishedAt ?? null,
+    startedAt: current?.startedAt ?? null,
+    finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  // merge: puede existir info previa del match (ej: demos subidas antes del cierre)
+  tx.set(admin.firestore().collection(MATCH_HISTORY_COLLECTION).doc(matchId), entry, {
+    merge: true,
+  });
+}
+
+function toIso(value: unknown): string | null {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  return null;
+}
+
+// demos = mapNumber -> metadata de la demo subida por MatchZy (ver demos.ts)
+function serializeDemos(demos: unknown): Record<string, unknown>[] {
+  if (!demos || typeof demos !== 'object') return [];
+  return Object.values(demos as Record<string, any>)
+    .map((demo) => ({ ...demo, uploadedAt: toIso(demo?.uploadedAt) }))
+    .sort((a, b) => Number(a.mapNumber) - Number(b.mapNumber));
+}
+
+function serializeEntry(snap: admin.firestore.DocumentSnapshot): Record<string, unknown> {
+  const data = snap.data() ?? {};
+  return {
+    ...data,
+    matchId: snap.id,
+    demos: serializeDemos(data.demos),
+    publishedAt: toIso(data.publishedAt),
+    startedAt: toIso(data.startedAt),
+    finishedAt: toIso(data.finishedAt),
+  };
+}
+
+/**
+ * Página de historial (más reciente primero). cursor = matchId del último item recibido.
+ */
+export async function listMatchHistory(
+  limitRaw: unknown,
+  cursor: unknown
+): Promise<{ items: Record<string, unknown>[]; nextCursor: string | null }> {
+  const db = admin.firestore();
+  const col = db.collection(MATCH_HISTORY_COLLECTION);
+
+  const parsedLimit = Number(limitRaw);
+  const limit =
+    Number.isInteger(parsedLimit) && parsedLimit > 0
+      ? Math.min(parsedLimit, MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
+
+  let query = col.orderBy('finishedAt', 'desc').limit(limit);
+
+  if (typeof cursor === 'string' && cursor) {
+    const cursorSnap = await col.doc(cursor).get();
+    if (cursorSnap.exists) {
+      query = query.startAfter(cursorSnap);
+    }
+  }
+
+  const snap = await query.get();
+  const items = snap.docs.map(serializeEntry);
+  const nextCursor = snap.docs.length === limit ? snap.docs[snap.docs.length - 1].id : null;
+
+  return { items, nextCursor };
+}
@@ -2,9 +2,87 @@ import { setGlobalOptions } from 'firebase-functions/v2';
 import { onRequest } from 'firebase-functions/v2/https';
 import * as logger from 'firebase-functions/logger';
 import * as admin from 'firebase-admin';
-import { defineSecret } from 'firebase-functions/params';
+import { defineList, defineSecret, defineString } from 'firebase-functions/params';
 import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { Readable } from 'stream';
 // import * as crypto from 'crypto';
+import { isAdmin, requireAdmin, requireSteamUser, SteamUser, syncAdminClaim } from './auth.js';
+import {
+  TEAM1_NAME,
+  TEAM2_NAME,
+  LobbyError,
+  ensureLobby,
+  joinQueue,
+  leaveQueue,
+  selectLeadersIfDue,
+  pickPlayer,
+  requestFinalizeMatch,
+  cancelMatch,
+  setPremadeRequest,
+  setCaptainVolunteer,
+  updateLobbySettings,
+  vetoMap,
+  chooseSide,
+  createLobby,
+  LIVE_MATCH_DOC,
+  LOBBIES_COLLECTION,
+  liveMatchRef,
+  lobbyRef,
+  parseLobbyId,
+  expireSideChoiceIfDue,
+  findPlayerLobby,
+  acceptReadyCheck,
+  expireReadyCheckIfDue,
+  advanceLobbyDeadlines,
+  dropInactivePlayers,
+  forceResetLobby,
+  isPlayerSlot,
+  movePlayer,
+  loadMatch,
+} from './lobby.js';
+import { recordHeartbeat } from './presence.js';
+import {
+  createLinkCode,
+  discordPublicKey,
+  handleInteraction,
+  verifyDiscordSignature,
+} from './interactions.js';
+import {
+  getDiscordConfig,
+  notifyDraftChange,
+  notifyMapDecided,
+  notifyMatchArchived,
+  saveDiscordConfig,
+} from './discord.js';
+import { isOffenseReason, listPenalties, pardonOffenses, recordOffenses } from './penalties.js';
+import { isMapSide, isSideChoice } from './veto.js';
+import { isGameMode, modeConfig, playersPerTeamOf } from './modes.js';
+import { AssignedServer, PublicServer, ServerConnection, claimServer } from './servers.js';
+import { connectionFor, publicServer, readAssignedServer } from './servers.js';
+import {
+  CommandTransport,
+  PterodactylCommandError,
+  pterodactylTransport,
+  rconTransport,
+} from './transport.js';
+import { RconAuthError } from './rcon.js';
+import { getLiveServerStatus } from './a2s.js';
+import { MATCH_HISTORY_COLLECTION, listMatchHistory } from './history.js';
+import { applyRatingsForMatch, recalculateAllRatings } from './ratings.js';
+import {
+  MATCHZY_SECRET_HEADER,
+  ingestMatchzyEvent,
+  isValidMatchzySecret,
+  matchzyRemoteLogCommands,
+} from './matchzy.js';
+import {
+  MAX_DEMO_BYTES,
+  demoTooLargeMessage,
+  matchzyDemoUploadCommands,
+  parseDemoHeaders,
+  storeMatchDemo,
+} from './demos.js';
 
 setGlobalOptions({ maxInstances: 15, region: 'us-central1' });
 
@@ -13,15 +91,23 @@ admin.initializeApp();
 // ====== Secrets ======
 const STEAM_API_KEY = defineSecret('STEAM_API_KEY');
 
+// MatchZy webhook (header X-MatchZy-Secret)
+const MATCHZY_WEBHOOK_SECRET = defineSecret('MATCHZY_WEBHOOK_SECRET');
+
 // Pterodactyl (Client API)
 const PTERO_CLIENT_KEY = defineSecret('PTERO_CLIENT_KEY');
-const PTERO_SERVER_ID = defineSecret('PTERO_SERVER_ID');
 const PTERO_PANEL_ORIGIN = 'https://pterodactyl.histeriaservers.com.ar';
-const GAME_SERVER_HOST = '45.235.98.222';
-const GAME_SERVER_PORT = '27159';
-const GAME_SERVER_SPECTATE_PORT = '27159';
+
+// RCON (servidores con transport 'rcon')
+const RCON_PASSWORD = defineSecret('RCON_PASSWORD');
 const PUBLIC_BASE_URL = 'https://clouset-cs2.web.app';
 
+// Discord interactions: clave pública (hex) de la aplicación, para validar las firmas
+const DISCORD_PUBLIC_KEY = defineString('DISCORD_PUBLIC_KEY', { default: '' });
+
+// Admins: steamIds separados por coma; el claim admin se sincroniza en cada login
+const ADMIN_STEAM_IDS = defineList('ADMIN_STEAM_IDS', { default: [] });
+
 // ====== Steam OpenID ======
 const STEAM_OPENID_ENDPOINT = 'https://steamcommunity.com/openid/login';
 
@@ -63,23 +149,16 @@ function extractSteamId(claimedId: string | undefined | null): string | null {
   return m?.[1] ?? null;
 }
 
-// ====== Match constants ======
-const MATCH_DOC_PATH = 'matches/current';
-const TEAM1_NAME = 'Team A';
-const TEAM2_NAME = 'Team B';
-const DEFAULT_MAP_POOL = [
-  'de_inferno',
-  'de_mirage',
-  'de_nuke',
-  'de_overpass',
-  'de_ancient',
-  'de_vertigo',
-  'de_anubis',
-] as const;
+// bo1 / bo3 / bo5
+const SUPPORTED_NUM_MAPS = [1, 3, 5];
 
 type MatchJson = {
+  matchid?: number;
   num_maps: number;
   maplist: string[];
+  map_sides?: string[];
+  players_per_team: number;
+  wingman: boolean;
   team1: { name: string; players: Record<string, string> };
   team2: { name: string; players: Record<string, string> };
 };
@@ -88,43 +167,6 @@ type MatchJsonResult =
   | { ok: true; match: MatchJson }
   | { ok: false; reason: 'NOT_FOUND' | 'NOT_READY'; error: string };
 
-type ServerConnectionInfo =
-  | {
-      ok: true;
-      host: string;
-      port: number;
-      spectatePort: number;
-      connectUrl: string;
-      spectateUrl: string;
-    }
-  | { ok: false; error: string };
-
-function getServerConnectionInfo(): ServerConnectionInfo {
-  const host = GAME_SERVER_HOST;
-  const portRaw = GAME_SERVER_PORT;
-  const spectatePortRaw = GAME_SERVER_SPECTATE_PORT || portRaw;
-
-  if (!host || !portRaw) {
-    return { ok: false, error: 'Missing GAME_SERVER_HOST or GAME_SERVER_PORT secret' };
-  }
-
-  const port = Number(portRaw);
-  const spectatePort = Number(spectatePortRaw);
-
-  if (!Number.isFinite(port) || port <= 0 || !Number.isFinite(spectatePort) || spectatePort <= 0) {
-    return { ok: false, error: 'Invalid GAME_SERVER_PORT or GAME_SERVER_SPECTATE_PORT secret' };
-  }
-
-  return {
-    ok: true,
-    host,
-    port,
-    spectatePort,
-    connectUrl: `steam://connect/${host}:${port}`,
-    spectateUrl: `steam://connect/${host}:${spectatePort}`,
-  };
-}
-
 function toStringRecord(value: unknown): Record<string, string> {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
   return Object.entries(value as Record<string, unknown>).reduce<Record<string, string>>(
@@ -202,22 +244,40 @@ async function getSteamProfileNames(
   return { names, missing };
 }
 
+// maplist de la serie: acepta un mapa suelto (bo1) o la lista del veto
+function normalizeMapList(maps: unknown): string[] {
+  const list = Array.isArray(maps) ? maps : [maps];
+  return list.filter((m): m is string => typeof m === 'string' && m.length > 0);
+}
+
 async function buildMatchJson(
-  map: unknown,
+  maps: unknown,
   team1: { name?: unknown; players?: unknown },
-  team2: { name?: unknown; players?: unknown }
+  team2: { name?: unknown; players?: unknown },
+  matchId?: unknown,
+  mapSides?: unknown,
+  mode?: unknown
 ): Promise<MatchJsonResult> {
-  if (!map || typeof map !== 'string') {
+  const { playersPerTeam, wingman } = modeConfig(mode);
+  const maplist = normalizeMapList(maps);
+  if (maplist.length === 0) {
     return { ok: false, reason: 'NOT_READY', error: 'Missing map' };
   }
+  if (!SUPPORTED_NUM_MAPS.includes(maplist.length)) {
+    return { ok: false, reason: 'NOT_READY', error: `Unsupported num_maps: ${maplist.length}` };
+  }
 
   const team1Normalized = normalizePlayers(team1?.players, (team1 as any)?.playerNames);
   const team2Normalized = normalizePlayers(team2?.players, (team2 as any)?.playerNames);
   const team1Players = team1Normalized.ids;
   const team2Players = team2Normalized.ids;
 
-  if (team1Players.length !== 5 || team2Players.length !== 5) {
-    return { ok: false, reason: 'NOT_READY', error: 'Teams must have 5 players each' };
+  if (team1Players.length !== playersPerTeam || team2Players.length !== playersPerTeam) {
+    return {
+      ok: false,
+      reason: 'NOT_READY',
+      error: `Teams must have ${playersPerTeam} players each`,
+    };
   }
 
   const ids = [...new Set([...team1Players, ...team2Players])];
@@ -239,57 +299,43 @@ async function buildMatchJson(
     return acc;
   }, {});
 
-  console.log("jsonMatch:",{
-    ok: true,
-    match: {
-      num_maps: 1,
-      maplist: [map],
-      team1: {
-        name: typeof team1?.name === 'string' ? team1.name : TEAM1_NAME,
-        players: team1Names,
-      },
-      team2: {
-        name: typeof team2?.name === 'string' ? team2.name : TEAM2_NAME,
-        players: team2Names,
-      },
+  const match: MatchJson = {
+    num_maps: maplist.length,
+    maplist,
+    players_per_team: playersPerTeam,
+    wingman,
+    team1: {
+      name: typeof team1?.name === 'string' ? team1.name : TEAM1_NAME,
+      players: team1Names,
     },
-  })
-
-  return {
-    ok: true,
-    match: {
-      num_maps: 1,
-      maplist: [map],
-      team1: {
-        name: typeof team1?.name === 'string' ? team1.name : TEAM1_NAME,
-        players: team1Names,
-      },
-      team2: {
-        name: typeof team2?.name === 'string' ? team2.name : TEAM2_NAME,
-        players: team2Names,
-      },
+    team2: {
+      name: typeof team2?.name === 'string' ? team2.name : TEAM2_NAME,
+      players: team2Names,
     },
   };
-}
 
-function initialMatchDoc() {
-  return {
-    estado: 'esperando_jugadores',
-    map: null,
-    team1: { name: TEAM1_NAME, players: [] },
-    team2: { name: TEAM2_NAME, players: [] },
-    queue: [],
-    mapPool: [...DEFAULT_MAP_POOL],
-    bannedMaps: [],
-    mapTurn: 'team1',
-    mapBanCount: 0,
-    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-  };
+  // map_sides: un valor por mapa (team1_ct, team2_t, knife...), sino MatchZy usa su default
+  if (
+    Array.isArray(mapSides) &&
+    mapSides.length === maplist.length &&
+    mapSides.every(isMapSide)
+  ) {
+    match.map_sides = mapSides;
+  }
+
+  // matchid: lo usa MatchZy en los eventos del webhook (/api/matchzy/events)
+  const numericMatchId = Number(matchId);
+  if (matchId != null && Number.isSafeInteger(numericMatchId)) {
+    match.matchid = numericMatchId;
+  }
+
+  console.log('jsonMatch:', { ok: true, match });
+
+  return { ok: true, match };
 }
 
-async function getCurrentMatchJson(): Promise<MatchJsonResult> {
-  const db = admin.firestore();
-  const ref = db.doc(MATCH_DOC_PATH);
+async function getCurrentMatchJson(lobbyId: string): Promise<MatchJsonResult> {
+  const ref = liveMatchRef(lobbyId);
   const snap = await ref.get();
 
   if (!snap.exists) {
@@ -297,68 +343,69 @@ async function getCurrentMatchJson(): Promise<MatchJsonResult> {
   }
 
   const cur = snap.data() as any;
-  return buildMatchJson(cur?.map, cur?.team1 ?? {}, cur?.team2 ?? {});
+  return buildMatchJson(
+    cur?.maplist ?? cur?.map,
+    cur?.team1 ?? {},
+    cur?.team2 ?? {},
+    cur?.matchId,
+    cur?.mapSides,
+    cur?.mode
+  );
 }
 
-// ====== Util: ejecutar comando en Pterodactyl (Client API) ======
-class PterodactylCommandError extends Error {
-  status: number;
-  body: string;
-
-  constructor(status: number, body: string) {
-    super(`Pterodactyl command failed: HTTP ${status} ${body}`.trim());
-    this.status = status;
-    this.body = body;
-  }
+// Equipos completos (según el modo) y veto terminado: el server puede arrancar
+function readyToStart(match: any): boolean {
+  const t1: string[] = match?.team1?.players ?? [];
+  const t2: string[] = match?.team2?.players ?? [];
+  const size = playersPerTeamOf(match);
+  return (
+    match?.estado === 'seleccionando_mapa' &&
+    t1.length === size &&
+    t2.length === size &&
+    !!match?.map
+  );
 }
 
-async function pteroSendCommand(command: string): Promise<void> {
-  const panelOrigin = PTERO_PANEL_ORIGIN; // ej https://pterodactyl.histeriaservers.com.ar
-  const serverId = PTERO_SERVER_ID.value(); // ej ba39664e
-  const apiKey = PTERO_CLIENT_KEY.value(); // ptlc_...
-
-  if (!panelOrigin || !serverId || !apiKey) {
-    throw new Error(
-      'Missing Pterodactyl secrets (PTERO_PANEL_ORIGIN / PTERO_SERVER_ID / PTERO_CLIENT_KEY)'
-    );
+// ====== Util: ejecutar comando en el servidor asignado (Pterodactyl o RCON) ======
+// Servidores guardados antes de que existiera transport -> Pterodactyl
+function serverTransport(server: AssignedServer): CommandTransport {
+  if (server.transport === 'rcon') {
+    return rconTransport({
+      host: server.rconHost || server.host,
+      port: server.rconPort || server.port,
+      password: RCON_PASSWORD.value(),
+    });
   }
-
-  const url = `${panelOrigin.replace(/\/+$/, '')}/api/client/servers/${encodeURIComponent(
-    serverId
-  )}/command`;
-
-  const r = await fetch(url, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-    },
-    body: JSON.stringify({ command }),
+  return pterodactylTransport({
+    panelOrigin: PTERO_PANEL_ORIGIN,
+    apiKey: PTERO_CLIENT_KEY.value(),
+    serverId: server.pteroServerId,
   });
+}
 
-  if (!r.ok) {
-    const t = await r.text().catch(() => '');
-    throw new PterodactylCommandError(r.status, t);
-  }
+async function sendServerCommand(server: AssignedServer, command: string): Promise<string> {
+  const output = await serverTransport(server).send(command);
+  if (output) logger.info(`[${server.id}] ${command}: ${output.trim()}`);
+  return output;
 }
 
 // =====================================================
 // Start match (shared) — NUEVO ✅
 //  - lock (startInProgress)
+//  - reserva un servidor libre del pool (servers/)
 //  - usa /api/match/config para el JSON del match
 //  - ejecuta matchzy_loadmatch_url
 //  - actualiza estado a en_curso
 // =====================================================
 type StartMatchResult =
-  | { ok: true; command: string; matchConfigUrl: string }
-  | { ok: false; reason: 'NOT_READY' | 'LOCKED' | 'NOT_FOUND' }
+  | { ok: true; command: string; matchConfigUrl: string; connection: ServerConnection }
+  | { ok: false; reason: 'NOT_READY' | 'LOCKED' | 'NOT_FOUND' | 'NO_SERVER' }
   | { ok: false; reason: 'UNAUTHENTICATED'; error: string }
   | { ok: false; reason: 'FAILED'; error: string };
 
-async function startMatchIfReady(): Promise<StartMatchResult> {
+async function startMatchIfReady(lobbyId: string): Promise<StartMatchResult> {
   const db = admin.firestore();
-  const ref = db.doc(MATCH_DOC_PATH);
+  const ref = liveMatchRef(lobbyId);
 
   // 1) lock en tx
   const claimed = await db.runTransaction(async (tx) => {
@@ -370,14 +417,7 @@ async function startMatchIfReady(): Promise<StartMatchResult> {
     if (cur.estado === 'en_curso') return { ok: false as const, reason: 'LOCKED' as const };
     if (cur.startInProgress === true) return { ok: false as const, reason: 'LOCKED' as const };
 
-    const t1: string[] = cur?.team1?.players ?? [];
-    const t2: string[] = cur?.team2?.players ?? [];
-    const map: string | null = cur?.map ?? null;
-
-    const ready =
-      cur?.estado === 'seleccionando_mapa' && t1.length === 5 && t2.length === 5 && !!map;
-
-    if (!ready) return { ok: false as const, reason: 'NOT_READY' as const };
+    if (!readyToStart(cur)) return { ok: false as const, reason: 'NOT_READY' as const };
 
     tx.update(ref, {
       startInProgress: true,
@@ -397,14 +437,7 @@ async function startMatchIfReady(): Promise<StartMatchResult> {
     if (!snap.exists) return { ok: false, reason: 'NOT_FOUND' };
 
     const cur = snap.data() as any;
-    const t1: string[] = cur?.team1?.players ?? [];
-    const t2: string[] = cur?.team2?.players ?? [];
-    const map: string | null = cur?.map ?? null;
-
-    const stillReady =
-      cur?.estado === 'seleccionando_mapa' && t1.length === 5 && t2.length === 5 && !!map;
-
-    if (!stillReady) {
+    if (!readyToStart(cur)) {
       await ref.update({
         startInProgress: false,
         updatedAt: admin.firestore.FieldValue.serverTimestamp(),
@@ -412,7 +445,14 @@ async function startMatchIfReady(): Promise<StartMatchResult> {
       return { ok: false, reason: 'NOT_READY' };
     }
 
-    const matchJsonResult = await buildMatchJson(map, cur?.team1 ?? {}, cur?.team2 ?? {});
+    const matchJsonResult = await buildMatchJson(
+      cur?.maplist ?? cur?.map,
+      cur?.team1 ?? {},
+      cur?.team2 ?? {},
+      cur?.matchId,
+      cur?.mapSides,
+      cur?.mode
+    );
     if (!matchJsonResult.ok) {
       await ref.update({
         startInProgress: false,
@@ -421,10 +461,52 @@ async function startMatchIfReady(): Promise<StartMatchResult> {
       return { ok: false, reason: 'NOT_READY' };
     }
 
-    const matchConfigUrl = `https://${getPublicBaseUrl()}/api/match/config`;
+    // Si se reintenta el start el lobby conserva el servidor que ya tenía
+    const server = await claimServer(
+      lobbyId,
+      cur?.matchId != null ? String(cur.matchId) : null,
+      playersPerTeamOf(cur) * 2
+    );
+    if (!server) {
+      await ref.update({
+        startInProgress: false,
+        startError: 'No hay servidores disponibles',
+        startFailedAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { ok: false, reason: 'NO_SERVER' };
+    }
+    // serverId en el lobby = aviso para que los clientes pidan /api/server/connection
+    const batch = db.batch();
+    batch.update(ref, {
+      server: publicServer(server),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    batch.set(lobbyRef(lobbyId), { serverId: server.id }, { merge: true });
+    await batch.commit();
+
+    // Eventos de MatchZy -> /api/matchzy/events del lobby
+    const lobbyQuery = `lobbyId=${encodeURIComponent(lobbyId)}`;
+    const eventsUrl = `${getPublicBaseUrl()}/api/matchzy/events?${lobbyQuery}`;
+    for (const logCmd of matchzyRemoteLogCommands(eventsUrl, MATCHZY_WEBHOOK_SECRET.value())) {
+      await sendServerCommand(server, logCmd);
+    }
+
+    // Demo de cada mapa -> /api/matchzy/demo del lobby (Storage + matchHistory)
+    const demoUrl = `${getPublicBaseUrl()}/api/matchzy/demo?${lobbyQuery}`;
+    const demoCommands = matchzyDemoUploadCommands(
+      demoUrl,
+      MATCHZY_SECRET_HEADER,
+      MATCHZY_WEBHOOK_SECRET.value()
+    );
+    for (const demoCmd of demoCommands) {
+      await sendServerCommand(server, demoCmd);
+    }
+
+    const matchConfigUrl = `https://${getPublicBaseUrl()}/api/match/config?${lobbyQuery}`;
     const cmd = `matchzy_loadmatch_url "${matchConfigUrl}"`;
     console.log("CMD:",cmd);
-    await pteroSendCommand(cmd);
+    await sendServerCommand(server, cmd);
 
     await ref.update({
       estado: 'en_curso',
@@ -434,14 +516,19 @@ async function startMatchIfReady(): Promise<StartMatchResult> {
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
     });
 
-    return { ok: true, command: cmd, matchConfigUrl };
+    const connection = connectionFor(server);
+    await notifyMapDecided(lobbyId, cur, connection);
+
+    return { ok: true, command: cmd, matchConfigUrl, connection };
   } catch (err: any) {
     const msg = err?.message ?? String(err);
     logger.error(`startMatchIfReady failed: ${msg}`);
 
-    if (err instanceof PterodactylCommandError && err.status === 401) {
-      const authMsg =
-        'Pterodactyl unauthenticated: verify PTERO_CLIENT_KEY, PTERO_SERVER_ID, and PTERO_PANEL_ORIGIN';
+    const pteroAuthFailed = err instanceof PterodactylCommandError && err.status === 401;
+    if (pteroAuthFailed || err instanceof RconAuthError) {
+      const authMsg = pteroAuthFailed
+        ? 'Pterodactyl unauthenticated: verify PTERO_CLIENT_KEY, pteroServerId, PTERO_PANEL_ORIGIN'
+        : 'RCON unauthenticated: verify RCON_PASSWORD and the server rconHost/rconPort';
       await ref.update({
         startInProgress: false,
         startError: authMsg,
@@ -463,47 +550,226 @@ async function startMatchIfReady(): Promise<StartMatchResult> {
   }
 }
 
+/**
+ * Destraba un start que quedó a medias (admin): limpia startInProgress / startError.
+ */
+async function clearStartState(lobbyId: string): Promise<void> {
+  const ref = liveMatchRef(lobbyId);
+  const snap = await ref.get();
+  if (!snap.exists) throw new LobbyError(404, 'Match no existe.');
+
+  await ref.update({
+    startInProgress: false,
+    startError: admin.firestore.FieldValue.delete(),
+    startFailedAt: admin.firestore.FieldValue.delete(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
 // =====================================================
 // AUTO START MATCH (trigger) — usa startMatchIfReady()
 // =====================================================
 export const autoStartMatch = onDocumentWritten(
   {
-    document: MATCH_DOC_PATH,
+    document: `${LOBBIES_COLLECTION}/{lobbyId}/${LIVE_MATCH_DOC}`,
     region: 'us-central1',
-    secrets: [PTERO_CLIENT_KEY, PTERO_SERVER_ID],
+    secrets: [PTERO_CLIENT_KEY, RCON_PASSWORD, MATCHZY_WEBHOOK_SECRET],
   },
   async (event) => {
     const before = event.data?.before;
     const after = event.data?.after;
     if (!after?.exists) return;
 
-    const match = after.data() as any;
-
     // quick check (barato) para no invocar siempre
-    const t1: string[] = match?.team1?.players ?? [];
-    const t2: string[] = match?.team2?.players ?? [];
-    const map: string | null = match?.map ?? null;
+    if (!readyToStart(after.data())) return;
+    if (before?.exists && readyToStart(before.data())) return;
 
-    const ready =
-      match?.estado === 'seleccionando_mapa' && t1.length === 5 && t2.length === 5 && !!map;
+    await startMatchIfReady(event.params.lobbyId);
+  }
+);
 
-    if (!ready) return;
+// lobbyId de la query (?lobbyId=...); responde 400 y devuelve null si es inválido
+function lobbyIdFromQuery(req: any, res: any): string | null {
+  try {
+    return parseLobbyId(req.query.lobbyId);
+  } catch (e: any) {
+    res.status(400).send(e?.message ?? String(e));
+    return null;
+  }
+}
 
-    if (before?.exists) {
-      const prev = before.data() as any;
-      const prevT1: string[] = prev?.team1?.players ?? [];
-      const prevT2: string[] = prev?.team2?.players ?? [];
-      const prevMap: string | null = prev?.map ?? null;
-      const prevReady =
-        prev?.estado === 'seleccionando_mapa' &&
-        prevT1.length === 5 &&
-        prevT2.length === 5 &&
-        !!prevMap;
+/**
+ * Servidor asignado al match del usuario: jugadores -> el de su lobby,
+ * espectadores -> el del lobby que están mirando (?lobbyId=). Responde el error y devuelve null.
+ */
+async function assignedServerFor(
+  req: any,
+  res: any
+): Promise<{ lobbyId: string; server: PublicServer } | null> {
+  const user = await requireSteamUser(req, res);
+  if (!user) return null;
+
+  let lobbyId = await findPlayerLobby(user.steamId);
+  if (!lobbyId) {
+    lobbyId = lobbyIdFromQuery(req, res);
+    if (!lobbyId) return null;
+  }
+
+  const snap = await liveMatchRef(lobbyId).get();
+  const server = snap.get('server') as PublicServer | undefined;
+  if (!server?.host) {
+    res.status(404).send('El match no tiene servidor asignado');
+    return null;
+  }
+  return { lobbyId, server };
+}
+
+// ====== Lobby actions (autenticadas) ======
+function readJsonBody(req: any): any {
+  return typeof req.body === 'string' ? JSON.parse(req.body || '{}') : (req.body ?? {});
+}
 
-      if (prevReady) return;
+async function runLobbyAction(
+  req: any,
+  res: any,
+  action: (user: SteamUser, body: any, lobbyId: string) => Promise<unknown>
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.status(405).send('Method not allowed');
+    return;
+  }
+
+  const user = await requireSteamUser(req, res);
+  if (!user) return;
+
+  try {
+    const body = readJsonBody(req);
+    const result = await action(user, body, parseLobbyId(body?.lobbyId));
+    res.status(200).json({ ok: true, result: result ?? null });
+  } catch (e: any) {
+    if (e instanceof LobbyError) {
+      res.status(e.status).send(e.message);
+      return;
+    }
+    if (e instanceof SyntaxError) {
+      res.status(400).send(`Invalid JSON body: ${e.message}`);
+      return;
     }
+    const msg = e?.message ?? String(e);
+    logger.error(`${req.path} error: ${msg}`);
+    res.status(500).send(msg);
+  }
+}
+
+function steamIdFromBody(body: any): string {
+  const steamId = String(body?.steamId ?? '');
+  if (!/^\d{15,20}$/.test(steamId)) throw new LobbyError(400, 'Invalid steamId');
+  return steamId;
+}
+
+// Igual que runLobbyAction pero solo para admins (403)
+async function runAdminAction(
+  req: any,
+  res: any,
+  action: (user: SteamUser, body: any, lobbyId: string) => Promise<unknown>
+): Promise<void> {
+  await runLobbyAction(req, res, (user, body, lobbyId) => {
+    if (!isAdmin(user)) throw new LobbyError(403, 'Solo administradores');
+    return action(user, body, lobbyId);
+  });
+}
 
-    await startMatchIfReady();
+// =====================================================
+// DISCORD (triggers) — avisos de cola, líderes, resultado y cancelación
+// (mapas + connect salen de startMatchIfReady, el arranque del evento going_live)
+// =====================================================
+export const notifyLobbyEvents = onDocumentWritten(
+  {
+    document: `${LOBBIES_COLLECTION}/{lobbyId}`,
+    region: 'us-central1',
+  },
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    await notifyDraftChange(event.params.lobbyId, event.data?.before?.data(), after.data());
+  }
+);
+
+export const notifyMatchResult = onDocumentWritten(
+  {
+    document: `${MATCH_HISTORY_COLLECTION}/{matchId}`,
+    region: 'us-central1',
+  },
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    // solo cuando se archiva (el doc puede existir antes, ej: demos subidas)
+    if (event.data?.before?.get('outcome') || !after.get('outcome')) return;
+    await notifyMatchArchived(after.data());
+  }
+);
+
+// =====================================================
+// RATINGS (trigger) — actualiza Elo cuando se archiva un resultado
+// =====================================================
+export const updateRatingsOnResult = onDocumentWritten(
+  {
+    document: `${MATCH_HISTORY_COLLECTION}/{matchId}`,
+    region: 'us-central1',
+  },
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    const entry = after.data() as any;
+    if (entry?.ratingsApplied || entry?.outcome !== 'finished' || !entry?.winner) return;
+
+    await applyRatingsForMatch(event.params.matchId);
+  }
+);
+
+// =====================================================
+// DEADLINES (scheduler) — avanza los lobbies aunque no haya ningún browser abierto
+//  - ready check, líderes, picks, veto y lados vencidos
+//  - matches en_curso colgados
+// =====================================================
+export const sweepLobbyDeadlines = onSchedule(
+  { schedule: 'every 1 minutes', region: 'us-central1' },
+  async () => {
+    const lobbies = await admin.firestore().collection(LOBBIES_COLLECTION).get();
+    for (const lobby of lobbies.docs) {
+      try {
+        const action = await advanceLobbyDeadlines(lobby.id);
+        if (action) logger.info(`sweepLobbyDeadlines: ${lobby.id} -> ${action}`);
+      } catch (e: any) {
+        logger.error(`sweepLobbyDeadlines ${lobby.id} failed: ${e?.message ?? String(e)}`);
+      }
+    }
+  }
+);
+
+// =====================================================
+// PRESENCIA (scheduler) — saca de la cola a los que cerraron la pestaña sin salir
+// =====================================================
+export const sweepQueuePresence = onSchedule(
+  { schedule: 'every 1 minutes', region: 'us-central1' },
+  async () => {
+    const lobbies = await admin.firestore().collection(LOBBIES_COLLECTION).get();
+    for (const lobby of lobbies.docs) {
+      try {
+        const removals = await dropInactivePlayers(lobby.id);
+        for (const removal of removals) {
+          logger.info(`queue removal: ${removal.steamId} from ${lobby.id} (${removal.reason})`, {
+            lobbyId: lobby.id,
+            ...removal,
+          });
+        }
+      } catch (e: any) {
+        logger.error(`sweepQueuePresence ${lobby.id} failed: ${e?.message ?? String(e)}`);
+      }
+    }
   }
 );
 
@@ -515,11 +781,7 @@ export const helloWorld = onRequest((request, response) => {
 // ====== API principal ======
 export const api = onRequest(
   {
-    secrets: [
-      STEAM_API_KEY,
-      PTERO_CLIENT_KEY,
-      PTERO_SERVER_ID,
-    ],
+    secrets: [STEAM_API_KEY, PTERO_CLIENT_KEY, RCON_PASSWORD, MATCHZY_WEBHOOK_SECRET],
     region: 'us-central1',
   },
   async (req, res): Promise<void> => {
@@ -574,6 +836,7 @@ export const api = onRequest(
       }
 
       const uid = `steam:${steamId}`;
+      await syncAdminClaim(uid, steamId, ADMIN_STEAM_IDS.value());
       const customToken = await admin.auth().createCustomToken(uid, { steamId, dev: true });
       const redirect = (req.query.redirect as string | undefined) || '';
       if (!redirect) {
@@ -649,6 +912,7 @@ export const api = onRequest(
         }
 
         const uid = `steam:${steamId}`;
+        await syncAdminClaim(uid, steamId, ADMIN_STEAM_IDS.value());
         const customToken = await admin.auth().createCustomToken(uid, { steamId });
 
         const redirect = (req.query.redirect as string | undefined) || '';
@@ -685,16 +949,193 @@ export const api = onRequest(
     }
 
     // ======================
-    // Server connection: /api/server/connection
+    // LOBBY: /api/lobby/* (el server aplica todas las transiciones)
     // ======================
-    if (path === 'server/connection') {
-      const connection = getServerConnectionInfo();
-      if (!connection.ok) {
-        res.status(500).send(connection.error);
+    if (path === 'lobby/ensure') {
+      await runLobbyAction(req, res, (_user, _body, lobbyId) => ensureLobby(lobbyId));
+      return;
+    }
+
+    if (path === 'lobby/join') {
+      await runLobbyAction(req, res, (user, _body, lobbyId) => joinQueue(lobbyId, user.steamId));
+      return;
+    }
+
+    if (path === 'lobby/leave') {
+      await runLobbyAction(req, res, (user, _body, lobbyId) => leaveQueue(lobbyId, user.steamId));
+      return;
+    }
+
+    if (path === 'lobby/ready') {
+      await runLobbyAction(req, res, (user, _body, lobbyId) =>
+        acceptReadyCheck(lobbyId, user.steamId)
+      );
+      return;
+    }
+
+    if (path === 'lobby/deadlines') {
+      await runLobbyAction(req, res, (_user, _body, lobbyId) => advanceLobbyDeadlines(lobbyId));
+      return;
+    }
+
+    if (path === 'lobby/ready/expire') {
+      await runLobbyAction(req, res, (_user, _body, lobbyId) => expireReadyCheckIfDue(lobbyId));
+      return;
+    }
+
+    if (path === 'lobby/leaders') {
+      await runLobbyAction(req, res, (_user, _body, lobbyId) => selectLeadersIfDue(lobbyId));
+      return;
+    }
+
+    if (path === 'lobby/pick') {
+      await runLobbyAction(req, res, (user, body, lobbyId) => {
+        const picked = String(body?.steamId ?? '').trim();
+        if (!picked) throw new LobbyError(400, 'Missing steamId');
+        return pickPlayer(lobbyId, user.steamId, picked);
+      });
+      return;
+    }
+
+    if (path === 'lobby/veto') {
+      await runLobbyAction(req, res, (user, body, lobbyId) => {
+        const map = String(body?.map ?? '').trim();
+        if (!map) throw new LobbyError(400, 'Missing map');
+        return vetoMap(lobbyId, user.steamId, map);
+      });
+      return;
+    }
+
+    if (path === 'lobby/side') {
+      await runLobbyAction(req, res, (user, body, lobbyId) => {
+        const side = body?.side;
+        if (!isSideChoice(side)) throw new LobbyError(400, 'side must be ct, t or knife');
+        return chooseSide(lobbyId, user.steamId, side);
+      });
+      return;
+    }
+
+    if (path === 'lobby/sides/expire') {
+      await runLobbyAction(req, res, (_user, _body, lobbyId) => expireSideChoiceIfDue(lobbyId));
+      return;
+    }
+
+    if (path === 'lobby/finalize') {
+      await runLobbyAction(req, res, (user, _body, lobbyId) =>
+        requestFinalizeMatch(lobbyId, user.steamId)
+      );
+      return;
+    }
+
+    if (path === 'lobby/premade') {
+      await runLobbyAction(req, res, (user, body, lobbyId) => {
+        const withSteamId = String(body?.with ?? '').trim();
+        return setPremadeRequest(lobbyId, user.steamId, withSteamId || null);
+      });
+      return;
+    }
+
+    if (path === 'lobby/captain') {
+      await runLobbyAction(req, res, (user, body, lobbyId) =>
+        setCaptainVolunteer(lobbyId, user.steamId, body?.want === true)
+      );
+      return;
+    }
+
+    if (path === 'lobby/settings') {
+      await runAdminAction(req, res, (_user, body, lobbyId) => updateLobbySettings(lobbyId, body));
+      return;
+    }
+
+    if (path === 'lobby/create') {
+      await runLobbyAction(req, res, (user, body) => createLobby(user.steamId, body?.name));
+      return;
+    }
+
+    // ======================
+    // DISCORD: /api/discord/interactions (slash commands firmados con Ed25519)
+    //          /api/discord/link-code (código para /link, usuario logueado)
+    // ======================
+    if (path === 'discord/interactions') {
+      if (req.method !== 'POST') {
+        res.status(405).send('Method not allowed');
         return;
       }
 
-      res.status(200).json(connection);
+      const publicKeyHex = DISCORD_PUBLIC_KEY.value();
+      if (!publicKeyHex) {
+        res.status(503).send('Discord interactions not configured');
+        return;
+      }
+      const rawBody: Buffer = req.rawBody ?? Buffer.from('');
+
+      try {
+        // Clave mal configurada -> LobbyError 503
+        const signed = verifyDiscordSignature(
+          discordPublicKey(publicKeyHex),
+          req.get('X-Signature-Ed25519'),
+          req.get('X-Signature-Timestamp'),
+          rawBody
+        );
+        if (!signed) {
+          res.status(401).send('Invalid request signature');
+          return;
+        }
+
+        const response = await handleInteraction(JSON.parse(rawBody.toString('utf8')));
+        res.status(200).json(response);
+        return;
+      } catch (e: any) {
+        if (e instanceof LobbyError) {
+          res.status(e.status).send(e.message);
+          return;
+        }
+        if (e instanceof SyntaxError) {
+          res.status(400).send(`Invalid JSON body: ${e.message}`);
+          return;
+        }
+        const msg = e?.message ?? String(e);
+        logger.error(`discord/interactions error: ${msg}`);
+        res.status(500).send(`discord/interactions error: ${msg}`);
+        return;
+      }
+    }
+
+    if (path === 'discord/link-code') {
+      await runLobbyAction(req, res, (user) => createLinkCode(user.steamId));
+      return;
+    }
+
+    // ======================
+    // PRESENCE: /api/presence/heartbeat (el dashboard late mientras está abierto)
+    // ======================
+    if (path === 'presence/heartbeat') {
+      await runLobbyAction(req, res, (user) => recordHeartbeat(user.steamId));
+      return;
+    }
+
+    // ======================
+    // Server connection: /api/server/connection
+    // ======================
+    if (path === 'server/connection') {
+      const assigned = await assignedServerFor(req, res);
+      if (!assigned) return;
+
+      const connection = connectionFor(assigned.server);
+      res.status(200).json({ ok: true, lobbyId: assigned.lobbyId, ...connection });
+      return;
+    }
+
+    // ======================
+    // Server status (A2S, cacheado): /api/server/status?lobbyId=...
+    // ======================
+    if (path === 'server/status') {
+      const assigned = await assignedServerFor(req, res);
+      if (!assigned) return;
+
+      const { server } = assigned;
+      const status = await getLiveServerStatus(server.host, server.port);
+      res.status(200).json({ ok: true, lobbyId: assigned.lobbyId, serverId: server.id, ...status });
       return;
     }
 
@@ -758,75 +1199,112 @@ export const api = onRequest(
     }
 
     // ======================
-    // LOAD MATCH (manual/debug): /api/match/load
+    // LOAD MATCH (manual/debug): /api/match/load (body.lobbyId y body.mode opcionales)
     // ======================
     if (path === 'match/load') {
+      const user = await requireAdmin(req, res);
+      if (!user) return;
+
       try {
         const payload =
           typeof req.body === 'string'
             ? JSON.parse(req.body || '{}')
             : (req.body ?? {});
 
+        const mapList = Array.isArray(payload?.maplist) ? payload.maplist : null;
+        if (
+          mapList &&
+          (!SUPPORTED_NUM_MAPS.includes(mapList.length) ||
+            mapList.some((m: unknown) => typeof m !== 'string' || !m) ||
+            new Set(mapList).size !== mapList.length)
+        ) {
+          res.status(400).send('maplist must be 1, 3 or 5 distinct map strings');
+          return;
+        }
+
         if (payload?.num_maps !== undefined) {
           if (typeof payload.num_maps !== 'number') {
             res.status(400).send('num_maps must be a number');
             return;
           }
-          if (payload.num_maps !== 1) {
-            res.status(400).send('Only num_maps=1 is supported');
+          if (!SUPPORTED_NUM_MAPS.includes(payload.num_maps)) {
+            res.status(400).send('num_maps must be 1, 3 or 5');
+            return;
+          }
+          if (payload.num_maps !== (mapList?.length ?? 1)) {
+            res.status(400).send('num_maps must match maplist length');
             return;
           }
         }
 
-        const mapList = Array.isArray(payload?.maplist) ? payload.maplist : null;
-        if (mapList && (mapList.length !== 1 || typeof mapList[0] !== 'string')) {
-          res.status(400).send('maplist must be an array with a single map string');
+        const maps = mapList ?? payload?.map;
+        const mapSides = payload?.map_sides;
+        if (
+          mapSides !== undefined &&
+          (!Array.isArray(mapSides) ||
+            mapSides.length !== (mapList?.length ?? 1) ||
+            !mapSides.every(isMapSide))
+        ) {
+          res.status(400).send('map_sides must have one valid side per map');
           return;
         }
-
-        const map = mapList?.[0] ?? payload?.map;
+        if (payload?.mode !== undefined && !isGameMode(payload.mode)) {
+          res.status(400).send('mode must be 5v5, 3v3 or wingman');
+          return;
+        }
+        const mode = modeConfig(payload?.mode);
         const team1 = payload?.team1 ?? {};
         const team2 = payload?.team2 ?? {};
 
         const team1Normalized = normalizePlayers(team1?.players, (team1 as any)?.playerNames);
         const team2Normalized = normalizePlayers(team2?.players, (team2 as any)?.playerNames);
 
-        const matchJsonResult = await buildMatchJson(map, team1, team2);
+        const matchJsonResult = await buildMatchJson(
+          maps,
+          team1,
+          team2,
+          undefined,
+          mapSides,
+          mode.mode
+        );
         if (!matchJsonResult.ok) {
           res.status(400).send(matchJsonResult.error);
           return;
         }
 
-        const db = admin.firestore();
-        const ref = db.doc(MATCH_DOC_PATH);
-
-        await ref.set(
-          {
-            estado: 'seleccionando_mapa',
-            map: matchJsonResult.match.maplist[0],
-            team1: {
-              name: matchJsonResult.match.team1.name,
-              players: team1Normalized.ids,
-              playerNames: team1Normalized.names,
-            },
-            team2: {
-              name: matchJsonResult.match.team2.name,
-              players: team2Normalized.ids,
-              playerNames: team2Normalized.names,
-            },
-            queue: [],
-            unassigned: [],
-            turn: 'team1',
-            mapTurn: 'team1',
-            mapBanCount: 0,
-            bannedMaps: [],
-            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        const lobbyId = parseLobbyId(payload?.lobbyId);
+
+        // El draft queda en_curso con el mismo matchId (lo cierran series_end / cancel)
+        await loadMatch(lobbyId, {
+          estado: 'seleccionando_mapa',
+          map: matchJsonResult.match.maplist[0],
+          maplist: matchJsonResult.match.maplist,
+          numMaps: matchJsonResult.match.num_maps,
+          mapSides: matchJsonResult.match.map_sides ?? null,
+          mode: mode.mode,
+          playersPerTeam: mode.playersPerTeam,
+          wingman: mode.wingman,
+          team1: {
+            name: matchJsonResult.match.team1.name,
+            players: team1Normalized.ids,
+            playerNames: team1Normalized.names,
           },
-          { merge: false }
-        );
+          team2: {
+            name: matchJsonResult.match.team2.name,
+            players: team2Normalized.ids,
+            playerNames: team2Normalized.names,
+          },
+          queue: [],
+          unassigned: [],
+          turn: 'team1',
+          mapTurn: 'team1',
+          mapBanCount: 0,
+          bannedMaps: [],
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
 
-        const startResult = await startMatchIfReady();
-        const connection = getServerConnectionInfo();
+        const startResult = await startMatchIfReady(lobbyId);
+        const connection = startResult.ok ? startResult.connection : null;
 
         if (startResult.ok) {
           res.status(200).json({
@@ -868,6 +1346,16 @@ export const api = onRequest(
           return;
         }
 
+        if (startResult.reason === 'NO_SERVER') {
+          res.status(503).json({
+            ok: false,
+            startResult,
+            connection,
+            match: matchJsonResult.match,
+          });
+          return;
+        }
+
         if (startResult.reason === 'UNAUTHENTICATED') {
           res.status(502).json({
             ok: false,
@@ -886,6 +1374,10 @@ export const api = onRequest(
         });
         return;
       } catch (e: any) {
+        if (e instanceof LobbyError) {
+          res.status(e.status).send(e.message);
+          return;
+        }
         res.status(400).send(`Invalid JSON body: ${e?.message ?? String(e)}`);
         return;
       }
@@ -900,14 +1392,51 @@ export const api = onRequest(
         return;
       }
 
+      const user = await requireSteamUser(req, res);
+      if (!user) return;
+
       try {
-        await pteroSendCommand('mp_restartgame 1');
-        const db = admin.firestore();
-        const ref = db.doc(MATCH_DOC_PATH);
-        await ref.set(initialMatchDoc(), { merge: false });
+        const body = readJsonBody(req);
+        const lobbyId = parseLobbyId(body?.lobbyId);
+
+        const [draftSnap, snap] = await Promise.all([
+          lobbyRef(lobbyId).get(),
+          liveMatchRef(lobbyId).get(),
+        ]);
+        if (!draftSnap.exists) {
+          res.status(404).send('Lobby no existe.');
+          return;
+        }
+        const draft = draftSnap.data() as any;
+        const cur = snap.data() as any;
+
+        // Solo los líderes (del draft o del match publicado) o un admin
+        if (!isAdmin(user)) {
+          const leaders = [draft, cur]
+            .flatMap((m) => [m?.team1?.players?.[0], m?.team2?.players?.[0]])
+            .filter(Boolean);
+          if (!leaders.includes(user.steamId)) {
+            res.status(403).send('Solo los líderes del match o un admin pueden cancelarlo');
+            return;
+          }
+        }
+
+        const reason = typeof body?.reason === 'string' ? body.reason.trim().slice(0, 200) : '';
+
+        // El servidor se libera en el reset del lobby
+        const serverId = (cur?.server as PublicServer | undefined)?.id;
+        const server = serverId ? await readAssignedServer(serverId) : null;
+        if (server) {
+          await sendServerCommand(server, 'mp_restartgame 1');
+        }
+        await cancelMatch(lobbyId, user.steamId, reason || null);
         res.status(200).json({ ok: true });
         return;
       } catch (e: any) {
+        if (e instanceof LobbyError) {
+          res.status(e.status).send(e.message);
+          return;
+        }
         const msg = e?.message ?? String(e);
         logger.error(`match/cancel error: ${msg}`);
         res.status(502).send(`match/cancel error: ${msg}`);
@@ -916,10 +1445,136 @@ export const api = onRequest(
     }
 
     // ======================
-    // MATCH JSON (current): /api/match/json
+    // MATCH HISTORY (paginado): /api/history?limit=20&cursor=<matchId>
+    // Trae steamIds de todos los jugadores: solo usuarios logueados con Steam
+    // ======================
+    if (path === 'history') {
+      const user = await requireSteamUser(req, res);
+      if (!user) return;
+
+      try {
+        const page = await listMatchHistory(req.query.limit, req.query.cursor);
+        res.status(200).json(page);
+        return;
+      } catch (e: any) {
+        const msg = e?.message ?? String(e);
+        logger.error(`history error: ${msg}`);
+        res.status(500).send(`history error: ${msg}`);
+        return;
+      }
+    }
+
+    // ======================
+    // ADMIN: /api/admin/* (panel de admin, claim admin)
+    // ======================
+    if (path === 'admin/lobby/reset') {
+      await runAdminAction(req, res, (user, _body, lobbyId) =>
+        forceResetLobby(lobbyId, user.steamId)
+      );
+      return;
+    }
+
+    if (path === 'admin/lobby/move') {
+      await runAdminAction(req, res, (user, body, lobbyId) => {
+        const steamId = steamIdFromBody(body);
+        if (!isPlayerSlot(body?.to)) {
+          throw new LobbyError(400, 'to must be queue, team1, team2 or out');
+        }
+        return movePlayer(lobbyId, steamId, body.to, user.steamId);
+      });
+      return;
+    }
+
+    if (path === 'admin/match/start') {
+      await runAdminAction(req, res, (_user, _body, lobbyId) => startMatchIfReady(lobbyId));
+      return;
+    }
+
+    if (path === 'admin/match/clear-start') {
+      await runAdminAction(req, res, (_user, _body, lobbyId) => clearStartState(lobbyId));
+      return;
+    }
+
+    // Discord: webhooks por comunidad y qué eventos manda cada uno
+    if (path === 'admin/discord') {
+      await runAdminAction(req, res, () => getDiscordConfig());
+      return;
+    }
+
+    if (path === 'admin/discord/save') {
+      await runAdminAction(req, res, (_user, body) => saveDiscordConfig(body?.webhooks));
+      return;
+    }
+
+    // Penalizaciones: listado, perdón (offenseId o todas) y reporte manual de abandono
+    if (path === 'admin/penalties') {
+      await runAdminAction(req, res, () => listPenalties());
+      return;
+    }
+
+    if (path === 'admin/penalties/pardon') {
+      await runAdminAction(req, res, (user, body) => {
+        const offenseId = typeof body?.offenseId === 'string' ? body.offenseId : null;
+        return pardonOffenses(steamIdFromBody(body), offenseId, user.steamId);
+      });
+      return;
+    }
+
+    if (path === 'admin/penalties/report') {
+      await runAdminAction(req, res, async (user, body, lobbyId) => {
+        const steamId = steamIdFromBody(body);
+        const reason = body?.reason ?? 'abandoned_match';
+        if (!isOffenseReason(reason)) throw new LobbyError(400, 'Invalid reason');
+
+        const live = await liveMatchRef(lobbyId).get();
+        const matchId = live.get('matchId');
+        await recordOffenses([
+          {
+            steamId,
+            reason,
+            source: 'admin',
+            lobbyId,
+            matchId: matchId != null ? String(matchId) : null,
+            note: typeof body?.note === 'string' ? body.note.slice(0, 200) : null,
+            reportedBy: user.steamId,
+          },
+        ]);
+      });
+      return;
+    }
+
+    // ======================
+    // RATINGS: /api/ratings/recalculate (admin, re-juega todo el historial)
+    // ======================
+    if (path === 'ratings/recalculate') {
+      if (req.method !== 'POST') {
+        res.status(405).send('Method not allowed');
+        return;
+      }
+
+      const user = await requireAdmin(req, res);
+      if (!user) return;
+
+      try {
+        const result = await recalculateAllRatings();
+        res.status(200).json({ ok: true, ...result });
+        return;
+      } catch (e: any) {
+        const msg = e?.message ?? String(e);
+        logger.error(`ratings/recalculate error: ${msg}`);
+        res.status(500).send(`ratings/recalculate error: ${msg}`);
+        return;
+      }
+    }
+
+    // ======================
+    // MATCH JSON (current): /api/match/json?lobbyId=...
     // ======================
     if (path === 'match/json') {
-      const matchResult = await getCurrentMatchJson();
+      const lobbyId = lobbyIdFromQuery(req, res);
+      if (!lobbyId) return;
+
+      const matchResult = await getCurrentMatchJson(lobbyId);
       if (!matchResult.ok) {
         if (matchResult.reason === 'NOT_FOUND') {
           res.status(404).json(matchResult);
@@ -935,10 +1590,13 @@ export const api = onRequest(
     }
 
     // ======================
-    // MATCH JSON file (current): /api/match/config
+    // MATCH JSON file (current): /api/match/config?lobbyId=...
     // ======================
     if (path === 'match/config') {
-      const matchResult = await getCurrentMatchJson();
+      const lobbyId = lobbyIdFromQuery(req, res);
+      if (!lobbyId) return;
+
+      const matchResult = await getCurrentMatchJson(lobbyId);
       if (!matchResult.ok) {
         if (matchResult.reason === 'NOT_FOUND') {
           res.status(404).json(matchResult);
@@ -955,10 +1613,49 @@ export const api = onRequest(
     }
 
     // ======================
-    // START MATCH (manual/debug): /api/match/start
+    // MATCHZY EVENTS (webhook del game server): /api/matchzy/events?lobbyId=...
+    // ======================
+    if (path === 'matchzy/events') {
+      if (req.method !== 'POST') {
+        res.status(405).send('Method not allowed');
+        return;
+      }
+
+      if (!isValidMatchzySecret(req.get(MATCHZY_SECRET_HEADER), MATCHZY_WEBHOOK_SECRET.value())) {
+        res.status(401).send('Invalid MatchZy secret');
+        return;
+      }
+
+      const lobbyId = lobbyIdFromQuery(req, res);
+      if (!lobbyId) return;
+
+      try {
+        const result = await ingestMatchzyEvent(lobbyId, readJsonBody(req));
+        res.status(200).json({ ok: true, ...result });
+        return;
+      } catch (e: any) {
+        if (e instanceof LobbyError) {
+          res.status(e.status).send(e.message);
+          return;
+        }
+        const msg = e?.message ?? String(e);
+        logger.error(`matchzy/events error: ${msg}`);
+        res.status(500).send(`matchzy/events error: ${msg}`);
+        return;
+      }
+    }
+
+    // ======================
+    // START MATCH (manual/debug): /api/match/start?lobbyId=...
     // ======================
     if (path === 'match/start') {
-      const r = await startMatchIfReady();
+      const user = await requireAdmin(req, res);
+      if (!user) return;
+
+      const lobbyId = lobbyIdFromQuery(req, res);
+      if (!lobbyId) return;
+
+      const r = await startMatchIfReady(lobbyId);
       if (r.ok) {
         res.status(200).json(r);
       } else if (r.reason === 'NOT_READY') {
@@ -978,3 +1675,52 @@ export const api = onRequest(
     res.status(404).send('Not found');
   }
 );
+
+/**
+ * Upload de demos de MatchZy al terminar cada mapa: /api/matchzy/demo?lobbyId=...
+ * (rewrite de hosting a esta función). Va aparte de `api` por el timeout de la subida a Storage.
+ * El body llega entero en rawBody y Cloud Run corta en MAX_DEMO_BYTES (32 MiB) con 413:
+ * las demos más grandes quedan solo en el servidor de juego.
+ */
+export const matchzyDemo = onRequest(
+  {
+    secrets: [MATCHZY_WEBHOOK_SECRET],
+    region: 'us-central1',
+    timeoutSeconds: 540,
+  },
+  async (req, res): Promise<void> => {
+    if (req.method !== 'POST') {
+      res.status(405).send('Method not allowed');
+      return;
+    }
+
+    if (!isValidMatchzySecret(req.get(MATCHZY_SECRET_HEADER), MATCHZY_WEBHOOK_SECRET.value())) {
+      res.status(401).send('Invalid MatchZy secret');
+      return;
+    }
+
+    const lobbyId = lobbyIdFromQuery(req, res);
+    if (!lobbyId) return;
+
+    // Cloud Functions entrega el body ya leído en rawBody (hasta MAX_DEMO_BYTES)
+    if (Number(req.get('Content-Length')) > MAX_DEMO_BYTES) {
+      res.status(413).send(demoTooLargeMessage());
+      return;
+    }
+
+    try {
+      const upload = parseDemoHeaders((name) => req.get(name));
+      const body: Buffer = req.rawBody ?? Buffer.alloc(0);
+      const result = await storeMatchDemo(lobbyId, upload, Readable.from([body]));
+      res.status(200).json({ ok: true, ...result });
+    } catch (e: any) {
+      if (e instanceof LobbyError) {
+        res.status(e.status).send(e.message);
+        return;
+      }
+      const msg = e?.message ?? String(e);
+      logger.error(`matchzy/demo error: ${msg}`);
+      res.status(500).send(`matchzy/demo error: ${msg}`);
+    }
+  }
+);
@@ -0,0 +1,367 @@
+import * as admin from 'firebase-admin';
+import { KeyObject, createPublicKey, randomInt, verify } from 'crypto';
+import {
+  DEFAULT_LOBBY_ID,
+  LOBBIES_COLLECTION,
+  LobbyError,
+  acceptReadyCheck,
+  findPlayerLobby,
+  joinQueue,
+  leaveQueue,
+  liveMatchRef,
+  lobbyRef,
+  parseLobbyId,
+} from './lobby.js';
+import { lobbySizeFor } from './modes.js';
+import { PublicServer, connectionFor } from './servers.js';
+import { listMatchHistory } from './history.js';
+import { DiscordEmbed, historyNotification, profileNames } from './discord.js';
+
+// Slash commands de Discord (endpoint de interacciones de la aplicación).
+// discordLinks/{discordUserId} = cuenta de Steam vinculada (código generado en el dashboard)
+export const DISCORD_LINKS_COLLECTION = 'discordLinks';
+const LINK_CODES_COLLECTION = 'discordLinkCodes';
+const LINK_CODE_TTL_MS = 10 * 60 * 1000;
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const LINK_CODE_LENGTH = 6;
+
+// Discord firma timestamp + body; más viejo que esto se rechaza (replay)
+const MAX_SIGNATURE_AGE_SEC = 5 * 60;
+
+const PING = 1;
+const APPLICATION_COMMAND = 2;
+const PONG = 1;
+const CHANNEL_MESSAGE_WITH_SOURCE = 4;
+const EPHEMERAL = 1 << 6;
+
+// Tipos de opción de los comandos
+const SUB_COMMAND = 1;
+const STRING = 3;
+
+const lobbyOption = {
+  type: STRING,
+  name: 'lobby',
+  description: 'Lobby (id o nombre); por defecto el principal',
+  required: false,
+};
+
+/**
+ * Comandos para registrar en la aplicación de Discord
+ * (PUT https://discord.com/api/v10/applications/{appId}/commands con este array).
+ */
+export const DISCORD_COMMANDS = [
+  {
+    name: 'queue',
+    description: 'Cola del lobby',
+    options: [
+      { type: SUB_COMMAND, name: 'join', description: 'Entrar a la cola', options: [lobbyOption] },
+      { type: SUB_COMMAND, name: 'leave', description: 'Salir de la cola' },
+      { type: SUB_COMMAND, name: 'accept', description: 'Aceptar el ready check' },
+      {
+        type: SUB_COMMAND,
+        name: 'status',
+        description: 'Quién está en cola',
+        options: [lobbyOption],
+      },
+    ],
+  },
+  {
+    name: 'match',
+    description: 'Match del lobby',
+    options: [
+      {
+        type: SUB_COMMAND,
+        name: 'info',
+        description: 'Equipos, mapa y connect',
+        options: [lobbyOption],
+      },
+    ],
+  },
+  { name: 'lastmatch', description: 'Último match jugado' },
+  {
+    name: 'link',
+    description: 'Vincular tu cuenta de Steam',
+    options: [
+      { type: STRING, name: 'code', description: 'Código del dashboard', required: true },
+    ],
+  },
+];
+
+export type InteractionResponse = {
+  type: number;
+  data?: { content?: string; embeds?: DiscordEmbed[]; flags?: number };
+};
+
+// ====== Firma (Ed25519) ======
+// Clave pública de la aplicación (hex de 32 bytes) -> KeyObject (DER SPKI)
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export function discordPublicKey(hex: string): KeyObject {
+  if (!/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new LobbyError(503, 'Discord interactions misconfigured: invalid DISCORD_PUBLIC_KEY');
+  }
+  return createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(hex, 'hex')]),
+    format: 'der',
+    type: 'spki',
+  });
+}
+
+/**
+ * Valida X-Signature-Ed25519 / X-Signature-Timestamp contra el body crudo.
+ */
+export function verifyDiscordSignature(
+  publicKey: KeyObject,
+  signature: unknown,
+  timestamp: unknown,
+  rawBody: Buffer,
+  nowSec = Math.floor(Date.now() / 1000)
+): boolean {
+  if (typeof signature !== 'string' || !/^[0-9a-f]{128}$/i.test(signature)) return false;
+  if (typeof timestamp !== 'string' || !/^\d{1,12}$/.test(timestamp)) return false;
+  if (Math.abs(nowSec - Number(timestamp)) > MAX_SIGNATURE_AGE_SEC) return false;
+
+  return verify(
+    null,
+    Buffer.concat([Buffer.from(timestamp, 'utf8'), rawBody]),
+    publicKey,
+    Buffer.from(signature, 'hex')
+  );
+}
+
+// ====== Vinculación Discord <-> Steam ======
+function newLinkCode(): string {
+  let code = '';
+  for (let i = 0; i < LINK_CODE_LENGTH; i++) {
+    code += LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Código de un solo uso para /link (lo pide el jugador logueado en el dashboard).
+ */
+export async function createLinkCode(
+  steamId: string
+): Promise<{ code: string; expiresAt: string }> {
+  const code = newLinkCode();
+  const expiresAt = admin.firestore.Timestamp.fromMillis(Date.now() + LINK_CODE_TTL_MS);
+  await admin.firestore().collection(LINK_CODES_COLLECTION).doc(code).set({ steamId, expiresAt });
+  return { code, expiresAt: expiresAt.toDate().toISOString() };
+}
+
+async function redeemLinkCode(discordUserId: string, rawCode: unknown): Promise<string> {
+  const code = typeof rawCode === 'string' ? rawCode.trim().toUpperCase() : '';
+  if (!/^[A-Z0-9]{4,12}$/.test(code)) throw new LobbyError(400, 'Código inválido.');
+
+  const db = admin.firestore();
+  const codeRef = db.collection(LINK_CODES_COLLECTION).doc(code);
+  const links = db.collection(DISCORD_LINKS_COLLECTION);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(codeRef);
+    const expiresAt = snap.get('expiresAt') as admin.firestore.Timestamp | undefined;
+    if (!snap.exists || !expiresAt || expiresAt.toMillis() < Date.now()) {
+      throw new LobbyError(404, 'Código inválido o vencido: generá otro en el dashboard.');
+    }
+    const steamId = String(snap.get('steamId'));
+
+    // una cuenta de Steam queda vinculada a un solo usuario de Discord
+    const previous = await tx.get(links.where('steamId', '==', steamId));
+    previous.docs.forEach((doc) => {
+      if (doc.id !== discordUserId) tx.delete(doc.ref);
+    });
+    tx.set(links.doc(discordUserId), {
+      discordUserId,
+      steamId,
+      linkedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    tx.delete(codeRef);
+    return steamId;
+  });
+}
+
+async function linkedSteamId(discordUserId: string): Promise<string> {
+  const snap = await admin
+    .firestore()
+    .collection(DISCORD_LINKS_COLLECTION)
+    .doc(discordUserId)
+    .get();
+  const steamId = snap.get('steamId');
+  if (typeof steamId !== 'string' || !steamId) {
+    throw new LobbyError(
+      403,
+      'Tu Discord no está vinculado: generá un código en el dashboard y usá /link.'
+    );
+  }
+  return steamId;
+}
+
+// ====== Comandos ======
+function reply(content: string, ephemeral = false): InteractionResponse {
+  return {
+    type: CHANNEL_MESSAGE_WITH_SOURCE,
+    data: { content, ...(ephemeral ? { flags: EPHEMERAL } : {}) },
+  };
+}
+
+function replyEmbed(embed: DiscordEmbed): InteractionResponse {
+  return { type: CHANNEL_MESSAGE_WITH_SOURCE, data: { embeds: [embed] } };
+}
+
+function optionValue(options: unknown, name: string): unknown {
+  const found = Array.isArray(options) ? options.find((o: any) => o?.name === name) : null;
+  return found?.value;
+}
+
+function ids(value: unknown): string[] {
+  return Array.isArray(value) ? value.map((id) => String(id)) : [];
+}
+
+/**
+ * Lobby de la opción `lobby` (id o nombre). Sin opción: el del jugador o el principal.
+ */
+async function resolveLobby(value: unknown, steamId: string | null): Promise<string> {
+  const raw = typeof value === 'string' ? value.trim() : '';
+  if (!raw) {
+    return (steamId && (await findPlayerLobby(steamId))) || DEFAULT_LOBBY_ID;
+  }
+
+  if (/^[A-Za-z0-9_-]{1,40}$/.test(raw) && (await lobbyRef(raw).get()).exists) {
+    return parseLobbyId(raw);
+  }
+  const byName = await admin
+    .firestore()
+    .collection(LOBBIES_COLLECTION)
+    .where('name', '==', raw)
+    .limit(1)
+    .get();
+  if (byName.empty) throw new LobbyError(404, `No existe el lobby "${raw}".`);
+  return byName.docs[0].id;
+}
+
+async function queueStatus(lobbyId: string): Promise<InteractionResponse> {
+  const snap = await lobbyRef(lobbyId).get();
+  if (!snap.exists) throw new LobbyError(404, 'Lobby no existe.');
+
+  const draft = snap.data() ?? {};
+  const queue = ids(draft.queue);
+  const size = Number(draft.playersPerTeam) * 2 || lobbySizeFor(draft.mode);
+  const nameOf = await profileNames(queue);
+  return replyEmbed({
+    title: `${draft.name ?? lobbyId}: ${queue.length}/${size} en cola`,
+    description: queue.length > 0 ? queue.map(nameOf).join('\n') : 'Cola vacía',
+    color: 0x3498db,
+    fields: [{ name: 'Estado', value: String(draft.estado ?? '—').replace(/_/g, ' ') }],
+  });
+}
+
+async function matchInfo(lobbyId: string): Promise<InteractionResponse> {
+  const snap = await liveMatchRef(lobbyId).get();
+  const live = snap.data();
+  const team1 = ids(live?.team1?.players);
+  const team2 = ids(live?.team2?.players);
+  if (!live?.matchId || team1.length + team2.length === 0) {
+    return reply('No hay match publicado en ese lobby.', true);
+  }
+
+  const nameOf = await profileNames([...team1, ...team2]);
+  const maplist = ids(live.maplist).length > 0 ? ids(live.maplist) : ids([live.map ?? '—']);
+  const roster = (players: string[]) => players.map(nameOf).join('\n') || '—';
+  const fields = [
+    { name: live.team1?.name ?? 'Team A', value: roster(team1), inline: true },
+    { name: live.team2?.name ?? 'Team B', value: roster(team2), inline: true },
+  ];
+  const server = live.server as PublicServer | undefined;
+  if (server?.host) {
+    const connection = connectionFor(server);
+    fields.push({
+      name: 'Servidor',
+      value: `\`connect ${connection.host}:${connection.port}\`\n${connection.connectUrl}`,
+      inline: false,
+    });
+  }
+  return replyEmbed({
+    title: `Match ${live.matchId}: ${maplist.join(' → ')}`,
+    description: String(live.estado ?? '').replace(/_/g, ' '),
+    color: 0x1abc9c,
+    fields,
+  });
+}
+
+async function lastMatch(): Promise<InteractionResponse> {
+  const { items } = await listMatchHistory(1, null);
+  const notification = items[0] ? historyNotification(items[0]) : null;
+  if (!notification) return reply('Todavía no hay matches en el historial.', true);
+  return replyEmbed(notification.embed);
+}
+
+async function queueCommand(discordUserId: string, sub: any): Promise<InteractionResponse> {
+  if (sub?.name === 'status') {
+    return queueStatus(await resolveLobby(optionValue(sub.options, 'lobby'), null));
+  }
+
+  const steamId = await linkedSteamId(discordUserId);
+  switch (sub?.name) {
+    case 'join': {
+      const lobbyId = await resolveLobby(optionValue(sub.options, 'lobby'), steamId);
+      await joinQueue(lobbyId, steamId, 'discord');
+      return reply(
+        'Estás en la cola. Cuando se llene aceptá con /queue accept ' +
+          '(repetí /queue join cada tanto si no tenés el dashboard abierto).',
+        true
+      );
+    }
+    case 'leave': {
+      const lobbyId = await findPlayerLobby(steamId);
+      if (!lobbyId) return reply('No estás en ninguna cola.', true);
+      await leaveQueue(lobbyId, steamId);
+      return reply('Saliste de la cola.', true);
+    }
+    case 'accept': {
+      const lobbyId = await findPlayerLobby(steamId);
+      if (!lobbyId) return reply('No estás en ninguna cola.', true);
+      await acceptReadyCheck(lobbyId, steamId);
+      return reply('Match aceptado.', true);
+    }
+    default:
+      return reply('Subcomando desconocido.', true);
+  }
+}
+
+/**
+ * Responde una interacción ya verificada. Los errores de lobby (cola llena, penalizado,
+ * no vinculado...) vuelven como mensaje efímero; el resto falla.
+ */
+export async function handleInteraction(interaction: any): Promise<InteractionResponse> {
+  if (interaction?.type === PING) return { type: PONG };
+  if (interaction?.type !== APPLICATION_COMMAND) {
+    throw new LobbyError(400, 'Unsupported interaction type');
+  }
+
+  const discordUserId = String(interaction.member?.user?.id ?? interaction.user?.id ?? '');
+  if (!discordUserId) throw new LobbyError(400, 'Missing user');
+  const options = interaction.data?.options;
+  const sub = Array.isArray(options) ? options[0] : null;
+
+  try {
+    switch (interaction.data?.name) {
+      case 'queue':
+        return await queueCommand(discordUserId, sub);
+      case 'match': {
+        const steamId = await linkedSteamId(discordUserId).catch(() => null);
+        return await matchInfo(await resolveLobby(optionValue(sub?.options, 'lobby'), steamId));
+      }
+      case 'lastmatch':
+        return await lastMatch();
+      case 'link': {
+        const steamId = await redeemLinkCode(discordUserId, optionValue(options, 'code'));
+        return reply(`Listo: tu Discord quedó vinculado a la cuenta de Steam ${steamId}.`, true);
+      }
+      default:
+        return reply('Comando desconocido.', true);
+    }
+  } catch (e: any) {
+    if (e instanceof LobbyError) return reply(e.message, true);
+    throw e;
+  }
+}
@@ -0,0 +1,1905 @@
+import * as admin from 'firebase-admin';
+import { MatchOutcome, archiveMatch } from './history.js';
+import { getRatingConfig, readRating } from './ratings.js';
+import { balanceTeams, premadeGroups } from './teams.js';
+import {
+  DEFAULT_MAP_POOL,
+  GameMode,
+  isGameMode,
+  lobbySizeFor,
+  modeConfig,
+  playersPerTeamOf,
+} from './modes.js';
+import { releaseServer, serverRef } from './servers.js';
+import { OffenseReason, assertNotPenalized, recordOffenses } from './penalties.js';
+import {
+  PresenceVia,
+  QueueRemoval,
+  heartbeatFields,
+  lastSeenMillis,
+  presenceRef,
+  presenceTimeoutFor,
+} from './presence.js';
+import {
+  CAPTAIN_SEED_ALGORITHM,
+  CaptainCandidate,
+  CaptainSelection,
+  CaptainStrategy,
+  isCaptainStrategy,
+  newSeed,
+  rankCaptains,
+} from './captains.js';
+import {
+  MapSide,
+  SeriesFormat,
+  SideChoice,
+  SERIES_FORMATS,
+  SideSlot,
+  VetoLogEntry,
+  VetoStep,
+  isSeriesFormat,
+  mapListFromVeto,
+  numMapsFor,
+  sideSlotsFromVeto,
+  supportsSeries,
+  toMapSide,
+  vetoStepsFor,
+} from './veto.js';
+
+// ====== Match constants ======
+// lobbies/{lobbyId} = draft (cola, equipos, veto); lobbies/{lobbyId}/live/current = match publicado
+export const LOBBIES_COLLECTION = 'lobbies';
+export const LIVE_MATCH_DOC = 'live/current';
+export const DEFAULT_LOBBY_ID = 'default';
+const DEFAULT_LOBBY_NAME = 'Lobby principal';
+const MAX_OPEN_LOBBIES = 10;
+export const TEAM1_NAME = 'Team A';
+export const TEAM2_NAME = 'Team B';
+
+const LEADER_SELECTION_DELAY_MS = 10_000;
+// tiempo para elegir lado en cada mapa; si vence queda knife
+const SIDE_CHOICE_TIMEOUT_MS = 30_000;
+// plazos de cada pick/veto: si vencen el backend elige solo
+const PICK_TIMEOUT_MS = 30_000;
+const VETO_TIMEOUT_MS = 30_000;
+// un match en_curso sin cierre después de numMaps * esto se cancela
+const MAP_MAX_DURATION_MS = 2 * 60 * 60 * 1000;
+// ventana del ready check (settings.readyCheckSeconds)
+const READY_CHECK_MIN_SECONDS = 10;
+const READY_CHECK_MAX_SECONDS = 120;
+
+export type TeamKey = 'team1' | 'team2';
+
+export type MatchEstado =
+  | 'esperando_jugadores'
+  | 'confirmando_jugadores'
+  | 'seleccionando_lideres'
+  | 'armando_equipos'
+  | 'seleccionando_mapa'
+  | 'eligiendo_lados'
+  | 'en_curso';
+
+const VALID_ESTADOS: MatchEstado[] = [
+  'esperando_jugadores',
+  'confirmando_jugadores',
+  'seleccionando_lideres',
+  'armando_equipos',
+  'seleccionando_mapa',
+  'eligiendo_lados',
+  'en_curso',
+];
+
+// Orden de picks del draft (A = team1, B = team2), sin contar a los líderes.
+// Los presets son de 5v5; los otros modos usan su propia secuencia de (tamaño - 1) * 2 picks.
+export const PICK_ORDER_PRESETS = ['ABABABAB', 'ABBAABBA', 'ABBABAAB'] as const;
+
+export type TeamFormation = 'captains' | 'balanced';
+
+// Configuración del lobby: sobrevive a los resets entre matches
+export type LobbySettings = {
+  // jugadores por equipo, pool de mapas y settings de MatchZy (5v5, 3v3, wingman)
+  mode: GameMode;
+  // captains = 2 líderes + draft manual, balanced = equipos armados por rating
+  teamFormation: TeamFormation;
+  captainStrategy: CaptainStrategy;
+  // uno de PICK_ORDER_PRESETS o una secuencia custom de A/B
+  pickOrder: string;
+  seriesFormat: SeriesFormat;
+  // segundos para aceptar cuando se llena la cola
+  readyCheckSeconds: number;
+  // pool de mapas editado por un admin (null = el del modo)
+  mapPool: string[] | null;
+};
+
+export const DEFAULT_LOBBY_SETTINGS: LobbySettings = {
+  mode: '5v5',
+  teamFormation: 'captains',
+  captainStrategy: 'random',
+  pickOrder: PICK_ORDER_PRESETS[0],
+  seriesFormat: 'bo1',
+  readyCheckSeconds: 30,
+  mapPool: null,
+};
+
+// con un solo mapa no hay veto (vetoStepsFor no tendría pasos)
+const MIN_MAP_POOL_SIZE = 2;
+const MAX_MAP_POOL_SIZE = 15;
+
+// Error de transición del lobby: status = código HTTP a devolver
+export class LobbyError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export function readSettings(match: any): LobbySettings {
+  const raw = match?.settings ?? {};
+  const mode = isGameMode(raw.mode) ? raw.mode : DEFAULT_LOBBY_SETTINGS.mode;
+  const teamSize = modeConfig(mode).playersPerTeam;
+  return {
+    mode,
+    teamFormation: raw.teamFormation === 'balanced' ? 'balanced' : 'captains',
+    captainStrategy: isCaptainStrategy(raw.captainStrategy) ? raw.captainStrategy : 'random',
+    pickOrder: parsePickOrder(raw.pickOrder, teamSize) ? raw.pickOrder : defaultPickOrder(teamSize),
+    seriesFormat: isSeriesFormat(raw.seriesFormat) ? raw.seriesFormat : 'bo1',
+    readyCheckSeconds: isReadyCheckSeconds(raw.readyCheckSeconds)
+      ? raw.readyCheckSeconds
+      : DEFAULT_LOBBY_SETTINGS.readyCheckSeconds,
+    mapPool: parseMapPool(raw.mapPool),
+  };
+}
+
+// Lista de mapas válida (nombres tipo de_mirage, sin repetidos) o null
+function parseMapPool(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  if (value.length < MIN_MAP_POOL_SIZE || value.length > MAX_MAP_POOL_SIZE) return null;
+  const maps = value.map((m) => (typeof m === 'string' ? m.trim().toLowerCase() : ''));
+  if (!maps.every((m) => /^[a-z0-9_]{3,40}$/.test(m))) return null;
+  return new Set(maps).size === maps.length ? maps : null;
+}
+
+function mapPoolFor(settings: LobbySettings): string[] {
+  return settings.mapPool ? [...settings.mapPool] : [...modeConfig(settings.mode).mapPool];
+}
+
+function isReadyCheckSeconds(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= READY_CHECK_MIN_SECONDS &&
+    (value as number) <= READY_CHECK_MAX_SECONDS
+  );
+}
+
+// Picks del draft sin contar a los líderes
+function pickCountFor(teamSize: number): number {
+  return (teamSize - 1) * 2;
+}
+
+// Alternado (en 5v5 = PICK_ORDER_PRESETS[0])
+function defaultPickOrder(teamSize: number): string {
+  return 'AB'.repeat(teamSize - 1);
+}
+
+/**
+ * "ABBAABBA" -> ['team1', 'team2', ...]. Tiene que tener pickCountFor(teamSize) picks,
+ * mitad por equipo. Devuelve null si la secuencia no es válida.
+ */
+export function parsePickOrder(value: unknown, teamSize = 5): TeamKey[] | null {
+  if (typeof value !== 'string' || value.length !== pickCountFor(teamSize)) return null;
+  if (!/^[AB]+$/.test(value)) return null;
+
+  const order = [...value].map((c): TeamKey => (c === 'A' ? 'team1' : 'team2'));
+  const team1Picks = order.filter((t) => t === 'team1').length;
+  if (team1Picks !== teamSize - 1) return null;
+  return order;
+}
+
+function lobbySizeOf(match: any): number {
+  return playersPerTeamOf(match) * 2;
+}
+
+// Orden guardado en el draft; los drafts viejos (sin pickOrder) alternan
+function pickOrderOf(match: any): TeamKey[] {
+  const teamSize = playersPerTeamOf(match);
+  if (Array.isArray(match.pickOrder) && match.pickOrder.length === pickCountFor(teamSize)) {
+    return match.pickOrder.map((t: unknown): TeamKey => (t === 'team2' ? 'team2' : 'team1'));
+  }
+  return parsePickOrder(defaultPickOrder(teamSize), teamSize)!;
+}
+
+// Campos del draft que dependen del modo (se fijan al resetear o al cambiar de modo/pool)
+function modeFields(settings: LobbySettings): Record<string, unknown> {
+  const { mode, playersPerTeam } = modeConfig(settings.mode);
+  return { mode, playersPerTeam, mapPool: mapPoolFor(settings) };
+}
+
+export function initialMatchDoc(settings: LobbySettings = DEFAULT_LOBBY_SETTINGS) {
+  return {
+    estado: 'esperando_jugadores',
+    settings,
+    map: null,
+    team1: { name: TEAM1_NAME, players: [] },
+    team2: { name: TEAM2_NAME, players: [] },
+    queue: [],
+    ...modeFields(settings),
+    bannedMaps: [],
+    mapTurn: 'team1',
+    mapBanCount: 0,
+    vetoLog: [],
+    maplist: [],
+    premadeRequests: {},
+    captainVolunteers: [],
+    readyAccepted: [],
+    readyCheckDeadline: null,
+    leaderSelectionAt: null,
+    publishedAt: null,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
+
+// Id numérico (MatchZy usa matchid numérico en la config y en los eventos)
+export function newMatchId(): string {
+  return String(Date.now());
+}
+
+function isValidEstado(estado: unknown): estado is MatchEstado {
+  return typeof estado === 'string' && VALID_ESTADOS.includes(estado as MatchEstado);
+}
+
+function patchMissingFields(match: any): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  if (!isValidEstado(match.estado)) patch.estado = 'esperando_jugadores';
+  if (match.map === undefined) patch.map = null;
+  if (!Array.isArray(match.queue)) patch.queue = [];
+  if (!Array.isArray(match.mapPool)) patch.mapPool = mapPoolFor(readSettings(match));
+  if (!Array.isArray(match.bannedMaps)) patch.bannedMaps = [];
+  if (!match.settings || typeof match.settings !== 'object') patch.settings = readSettings(match);
+
+  for (const [key, name] of [
+    ['team1', TEAM1_NAME],
+    ['team2', TEAM2_NAME],
+  ] as const) {
+    const team = match[key];
+    if (!team || typeof team !== 'object') {
+      patch[key] = { name, players: [] };
+    } else if (!team.name || !Array.isArray(team.players)) {
+      patch[key] = {
+        ...team,
+        name: team.name || name,
+        players: Array.isArray(team.players) ? team.players : [],
+      };
+    }
+  }
+  return patch;
+}
+
+function normalizeIds(ids: unknown): string[] {
+  if (!Array.isArray(ids)) return [];
+  return ids
+    .map((id) => (id === null || id === undefined ? '' : String(id)))
+    .filter((id) => id.length > 0);
+}
+
+export function lobbyRef(lobbyId: string) {
+  return admin.firestore().collection(LOBBIES_COLLECTION).doc(lobbyId);
+}
+
+export function liveMatchRef(lobbyId: string) {
+  return lobbyRef(lobbyId).collection('live').doc('current');
+}
+
+function draftRef(lobbyId: string) {
+  return lobbyRef(lobbyId);
+}
+
+function currentRef(lobbyId: string) {
+  return liveMatchRef(lobbyId);
+}
+
+// lobbyId que llega en body/query: default si no viene
+export function parseLobbyId(value: unknown): string {
+  if (value === undefined || value === null || value === '') return DEFAULT_LOBBY_ID;
+  const id = String(value).trim();
+  if (!/^[A-Za-z0-9_-]{1,40}$/.test(id)) throw new LobbyError(400, 'Invalid lobbyId');
+  return id;
+}
+
+async function readDraft(tx: admin.firestore.Transaction, lobbyId: string): Promise<any> {
+  const snap = await tx.get(draftRef(lobbyId));
+  if (!snap.exists) throw new LobbyError(404, 'Match no existe.');
+  return snap.data() ?? {};
+}
+
+function leadersOf(match: any): { leaderA: string | null; leaderB: string | null } {
+  const team1 = normalizeIds(match.team1?.players);
+  const team2 = normalizeIds(match.team2?.players);
+  return { leaderA: team1[0] ?? null, leaderB: team2[0] ?? null };
+}
+
+function resetLobby(
+  tx: admin.firestore.Transaction,
+  lobbyId: string,
+  draft: any,
+  queue: string[] = []
+): void {
+  const settings = readSettings(draft);
+  tx.set(
+    draftRef(lobbyId),
+    { ...initialMatchDoc(settings), ...lobbyMeta(lobbyId, draft), queue },
+    { merge: false }
+  );
+  tx.set(currentRef(lobbyId), initialMatchDoc(settings), { merge: false });
+}
+
+// Campos para arrancar el veto de mapas (equipos completos)
+function vetoStartFields(match: any): Record<string, unknown> {
+  const { seriesFormat } = readSettings(match);
+  const mapPool: string[] = Array.isArray(match.mapPool)
+    ? [...match.mapPool]
+    : [...DEFAULT_MAP_POOL];
+  const vetoSteps = vetoStepsFor(seriesFormat, mapPool.length);
+  return {
+    estado: 'seleccionando_mapa',
+    queue: [], // ya no se usa queue en esta fase
+    unassigned: [],
+    seriesFormat,
+    numMaps: numMapsFor(seriesFormat),
+    vetoSteps,
+    vetoLog: [],
+    mapTurn: vetoSteps[0].team,
+    mapAction: vetoSteps[0].action,
+    mapBanCount: 0,
+    bannedMaps: [],
+    maplist: [],
+    mapPool,
+    vetoDeadline: deadlineIn(VETO_TIMEOUT_MS),
+  };
+}
+
+/**
+ * Archiva el match publicado (si hay matchId) y resetea el lobby.
+ * Lee el live del lobby, así que tiene que ir antes de cualquier write de la tx.
+ */
+async function archiveAndReset(
+  tx: admin.firestore.Transaction,
+  lobbyId: string,
+  draft: any,
+  outcome: MatchOutcome
+): Promise<void> {
+  const currentSnap = await tx.get(currentRef(lobbyId));
+  const serverId = currentSnap.get('server.id');
+  const serverSnap = typeof serverId === 'string' ? await tx.get(serverRef(serverId)) : null;
+
+  // el matchId se asigna al terminar de elegir lados: un match cancelado antes (draft / veto)
+  // se archiva igual con un id nuevo
+  const inDraft = DRAFT_ESTADOS.includes(draft.estado);
+  const matchId = draft.matchId != null ? String(draft.matchId) : inDraft ? newMatchId() : '';
+  if (matchId) {
+    archiveMatch(tx, lobbyId, matchId, draft, currentSnap.data() ?? {}, outcome);
+  }
+  if (serverSnap) releaseServer(tx, serverSnap, lobbyId);
+  resetLobby(tx, lobbyId, draft);
+}
+
+// Datos del lobby que sobreviven al reset (el reset solo limpia cola/draft/veto)
+function lobbyMeta(lobbyId: string, draft: any): Record<string, unknown> {
+  return {
+    name: typeof draft?.name === 'string' && draft.name ? draft.name : lobbyId,
+    createdBy: draft?.createdBy ?? null,
+    createdAt: draft?.createdAt ?? admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Crea el lobby default si no existe y completa campos faltantes.
+ * Los demás lobbies se crean con createLobby.
+ */
+export async function ensureLobby(lobbyId: string): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(draftRef(lobbyId));
+    if (!snap.exists) {
+      if (lobbyId !== DEFAULT_LOBBY_ID) throw new LobbyError(404, 'Lobby no existe.');
+      tx.set(
+        draftRef(lobbyId),
+        { ...initialMatchDoc(), ...lobbyMeta(lobbyId, { name: DEFAULT_LOBBY_NAME }) },
+        { merge: false }
+      );
+      return;
+    }
+
+    const patch = patchMissingFields(snap.data() ?? {});
+    if (Object.keys(patch).length > 0) {
+      tx.set(draftRef(lobbyId), patch, { merge: true });
+    }
+  });
+}
+
+/**
+ * Abre un lobby nuevo (hasta MAX_OPEN_LOBBIES). Devuelve el lobbyId.
+ */
+export async function createLobby(steamId: string, name: unknown): Promise<string> {
+  const db = admin.firestore();
+  const lobbyName = typeof name === 'string' ? name.trim().slice(0, 40) : '';
+  if (!lobbyName) throw new LobbyError(400, 'Missing name');
+
+  return db.runTransaction(async (tx) => {
+    const open = await tx.get(db.collection(LOBBIES_COLLECTION).limit(MAX_OPEN_LOBBIES + 1));
+    if (open.size >= MAX_OPEN_LOBBIES) {
+      throw new LobbyError(409, `Ya hay ${MAX_OPEN_LOBBIES} lobbies abiertos.`);
+    }
+    if (await lobbyOfPlayer(tx, steamId)) {
+      throw new LobbyError(409, 'Ya estás en otro lobby.');
+    }
+    await assertNotPenalized(tx, steamId);
+
+    // El creador entra a la cola; el lobby se cierra cuando queda vacío
+    const ref = db.collection(LOBBIES_COLLECTION).doc();
+    tx.set(ref, {
+      ...initialMatchDoc(),
+      name: lobbyName,
+      createdBy: steamId,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      queue: [steamId],
+    });
+    tx.set(presenceRef(steamId), heartbeatFields(steamId), { merge: true });
+    return ref.id;
+  });
+}
+
+/**
+ * Lobby donde ya está el jugador (en cola o en un equipo), si hay.
+ * Se lee dentro de la tx para no quedar en dos lobbies a la vez.
+ */
+async function lobbyOfPlayer(
+  tx: admin.firestore.Transaction,
+  steamId: string
+): Promise<string | null> {
+  for (const query of playerLobbyQueries(steamId)) {
+    const snap = await tx.get(query);
+    if (!snap.empty) return snap.docs[0].id;
+  }
+  return null;
+}
+
+function playerLobbyQueries(steamId: string): admin.firestore.Query[] {
+  const col = admin.firestore().collection(LOBBIES_COLLECTION);
+  return ['queue', 'team1.players', 'team2.players'].map((field) =>
+    col.where(field, 'array-contains', steamId).limit(1)
+  );
+}
+
+/**
+ * Igual que lobbyOfPlayer pero fuera de tx (solo lectura, ej: /api/server/connection).
+ */
+export async function findPlayerLobby(steamId: string): Promise<string | null> {
+  for (const query of playerLobbyQueries(steamId)) {
+    const snap = await query.get();
+    if (!snap.empty) return snap.docs[0].id;
+  }
+  return null;
+}
+
+/**
+ * Entra a la cola del lobby. via = desde dónde (el dashboard late, Discord no).
+ */
+export async function joinQueue(
+  lobbyId: string,
+  steamId: string,
+  via: PresenceVia = 'web'
+): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(draftRef(lobbyId));
+    const otherLobby = await lobbyOfPlayer(tx, steamId);
+    if (otherLobby && otherLobby !== lobbyId) {
+      throw new LobbyError(409, 'Ya estás en otro lobby.');
+    }
+    if (otherLobby !== lobbyId) await assertNotPenalized(tx, steamId);
+
+    if (!snap.exists) {
+      if (lobbyId !== DEFAULT_LOBBY_ID) throw new LobbyError(404, 'Lobby no existe.');
+      tx.set(
+        draftRef(lobbyId),
+        {
+          ...initialMatchDoc(),
+          ...lobbyMeta(lobbyId, { name: DEFAULT_LOBBY_NAME }),
+          queue: [steamId],
+        },
+        { merge: false }
+      );
+      tx.set(presenceRef(steamId), heartbeatFields(steamId, via), { merge: true });
+      return;
+    }
+
+    const match = snap.data() ?? {};
+    const estado = isValidEstado(match.estado) ? match.estado : 'esperando_jugadores';
+    if (estado !== 'esperando_jugadores') {
+      throw new LobbyError(409, `No se puede unirse: estado actual = ${estado}`);
+    }
+
+    const q = normalizeIds(match.queue);
+    if (q.includes(steamId)) {
+      // idempotente (desde Discord además renueva la presencia)
+      tx.set(presenceRef(steamId), heartbeatFields(steamId, via), { merge: true });
+      return;
+    }
+
+    const lobbySize = lobbySizeOf(match);
+    if (q.length >= lobbySize) {
+      throw new LobbyError(409, `La queue ya está completa (${lobbySize} jugadores).`);
+    }
+
+    q.push(steamId);
+
+    const update: Record<string, unknown> = {
+      queue: q,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    // Cola llena -> ready check: todos tienen que aceptar antes de elegir líderes
+    if (q.length === lobbySize) Object.assign(update, readyCheckFields(match));
+
+    if (!isValidEstado(match.estado) && !update.estado) {
+      update.estado = 'esperando_jugadores';
+    }
+    tx.update(draftRef(lobbyId), update);
+    // el que entra arranca con presencia fresca (si no, el sweep lo sacaría antes del 1er latido)
+    tx.set(presenceRef(steamId), heartbeatFields(steamId, via), { merge: true });
+  });
+}
+
+/**
+ * Sale de la cola. En el draft (líderes, picks, veto, lados) se puede salir igual,
+ * pero el draft se cae para todos y el que se fue queda penalizado.
+ * Salir durante el ready check es rechazarlo: cuenta como ready check fallido.
+ */
+export async function leaveQueue(lobbyId: string, steamId: string): Promise<void> {
+  const db = admin.firestore();
+  const offense = await db.runTransaction(async (tx): Promise<OffenseReason | null> => {
+    const snap = await tx.get(draftRef(lobbyId));
+    if (!snap.exists) return null;
+
+    const match = snap.data() ?? {};
+    if (DRAFT_ESTADOS.includes(match.estado)) {
+      if (!draftPlayers(match).includes(steamId)) return null;
+      abortDraft(tx, lobbyId, match, [steamId]);
+      return 'left_draft';
+    }
+    if (match.estado !== 'esperando_jugadores' && match.estado !== 'confirmando_jugadores') {
+      // con el match en curso no se sale desde acá
+      return null;
+    }
+
+    const q = normalizeIds(match.queue);
+    if (!q.includes(steamId)) return null;
+
+    if (match.estado === 'confirmando_jugadores') {
+      abortReadyCheck(tx, lobbyId, match, [steamId]);
+      return 'ready_check_failed';
+    }
+    removeFromQueue(tx, lobbyId, match, [steamId]);
+    return null;
+  });
+
+  if (offense) {
+    await recordOffenses([{ steamId, reason: offense, source: 'system', lobbyId }]);
+  }
+}
+
+// Estados del draft: la cola ya se llenó y confirmó, el match todavía no arrancó
+const DRAFT_ESTADOS: unknown[] = [
+  'seleccionando_lideres',
+  'armando_equipos',
+  'seleccionando_mapa',
+  'eligiendo_lados',
+];
+
+// Todos los jugadores del draft (la cola se vacía al arrancar el veto)
+function draftPlayers(match: any): string[] {
+  const ids = [
+    ...normalizeIds(match.queue),
+    ...normalizeIds(match.team1?.players),
+    ...normalizeIds(match.team2?.players),
+    ...normalizeIds(match.unassigned),
+  ];
+  return [...new Set(ids)];
+}
+
+/**
+ * Se cae el draft porque se fue alguien: el resto vuelve a esperando_jugadores
+ * (en el mismo orden) y hay que volver a llenar la cola.
+ */
+function abortDraft(
+  tx: admin.firestore.Transaction,
+  lobbyId: string,
+  match: any,
+  removed: string[]
+): void {
+  const queue = draftPlayers(match).filter((id) => !removed.includes(id));
+  if (lobbyId !== DEFAULT_LOBBY_ID && queue.length === 0) {
+    tx.delete(currentRef(lobbyId));
+    tx.delete(draftRef(lobbyId));
+    return;
+  }
+  resetLobby(tx, lobbyId, match, queue);
+}
+
+/**
+ * Saca de la cola (esperando_jugadores) a los removed.
+ * Los lobbies extra se cierran cuando se va el último.
+ */
+function removeFromQueue(
+  tx: admin.firestore.Transaction,
+  lobbyId: string,
+  match: any,
+  removed: string[]
+): void {
+  const queue = normalizeIds(match.queue).filter((id) => !removed.includes(id));
+  if (lobbyId !== DEFAULT_LOBBY_ID && queue.length === 0) {
+    tx.delete(currentRef(lobbyId));
+    tx.delete(draftRef(lobbyId));
+    return;
+  }
+
+  let premadeRequests = match.premadeRequests;
+  for (const id of removed) premadeRequests = withoutPremadeRequests(premadeRequests, id);
+
+  tx.update(draftRef(lobbyId), {
+    queue,
+    premadeRequests,
+    captainVolunteers: normalizeIds(match.captainVolunteers).filter((id) => !removed.includes(id)),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Saca a los que dejaron de latir hace más de PRESENCE_TIMEOUT_MS (cerraron la pestaña
+ * sin salir; los que entraron desde Discord tienen DISCORD_PRESENCE_TIMEOUT_MS), desde la
+ * cola hasta el draft. Con el match en curso no se mira la presencia.
+ * En el ready check y en el draft además quedan penalizados.
+ */
+export async function dropInactivePlayers(lobbyId: string): Promise<QueueRemoval[]> {
+  const db = admin.firestore();
+  const { removals, offense } = await db.runTransaction(async (tx) => {
+    const none = { removals: [] as QueueRemoval[], offense: null as OffenseReason | null };
+    const snap = await tx.get(draftRef(lobbyId));
+    if (!snap.exists) return none;
+
+    const match = snap.data() ?? {};
+    const inDraft = DRAFT_ESTADOS.includes(match.estado);
+    if (
+      match.estado !== 'esperando_jugadores' &&
+      match.estado !== 'confirmando_jugadores' &&
+      !inDraft
+    ) {
+      return none;
+    }
+
+    const queue = inDraft ? draftPlayers(match) : normalizeIds(match.queue);
+    if (queue.length === 0) return none;
+
+    const presence = await tx.getAll(...queue.map((id) => presenceRef(id)));
+    const now = Date.now();
+    const removals: QueueRemoval[] = [];
+    presence.forEach((p, idx) => {
+      const lastSeen = lastSeenMillis(p);
+      if (lastSeen !== null && lastSeen > now - presenceTimeoutFor(p)) return;
+      removals.push({
+        steamId: queue[idx],
+        reason: 'inactive',
+        lastSeenAt: lastSeen !== null ? new Date(lastSeen).toISOString() : null,
+      });
+    });
+    if (removals.length === 0) return none;
+
+    const removed = removals.map((r) => r.steamId);
+    if (inDraft) {
+      abortDraft(tx, lobbyId, match, removed);
+      return { removals, offense: 'left_draft' as const };
+    }
+    if (match.estado === 'confirmando_jugadores') {
+      abortReadyCheck(tx, lobbyId, match, removed);
+      return { removals, offense: 'ready_check_failed' as const };
+    }
+    removeFromQueue(tx, lobbyId, match, removed);
+    return { removals, offense: null };
+  });
+
+  if (offense) {
+    await recordOffenses(
+      removals.map((r) => ({ steamId: r.steamId, reason: offense, source: 'system', lobbyId }))
+    );
+  }
+  return removals;
+}
+
+function readyCheckFields(match: any): Record<string, unknown> {
+  return {
+    estado: 'confirmando_jugadores',
+    readyAccepted: [],
+    readyCheckDeadline: deadlineIn(readSettings(match).readyCheckSeconds * 1000),
+  };
+}
+
+/**
+ * Ready check: el jugador confirma que está. Si confirmaron todos -> seleccionando_lideres.
+ */
+export async function acceptReadyCheck(lobbyId: string, steamId: string): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const match = await readDraft(tx, lobbyId);
+
+    if (match.estado !== 'confirmando_jugadores') {
+      throw new LobbyError(409, `No hay ready check: estado = ${match.estado}`);
+    }
+    const q = normalizeIds(match.queue);
+    if (!q.includes(steamId)) {
+      throw new LobbyError(409, 'Tenés que estar en la cola.');
+    }
+
+    const accepted = normalizeIds(match.readyAccepted);
+    if (accepted.includes(steamId)) return; // idempotente
+    accepted.push(steamId);
+
+    const update: Record<string, unknown> = {
+      readyAccepted: accepted,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    if (q.every((id) => accepted.includes(id))) {
+      Object.assign(update, {
+        estado: 'seleccionando_lideres',
+        readyCheckDeadline: null,
+        team1: { name: TEAM1_NAME, players: [] },
+        team2: { name: TEAM2_NAME, players: [] },
+        unassigned: [],
+        turn: 'team1',
+        leaderSelectionAt: admin.firestore.Timestamp.fromMillis(
+          Date.now() + LEADER_SELECTION_DELAY_MS
+        ),
+      });
+    }
+    tx.update(draftRef(lobbyId), update);
+  });
+}
+
+/**
+ * Venció el ready check: salen de la cola (penalizados) los que no aceptaron.
+ * Cualquier cliente puede pedirlo; el server valida el horario. Devuelve true si los sacó.
+ */
+export async function expireReadyCheckIfDue(lobbyId: string): Promise<boolean> {
+  const db = admin.firestore();
+  const missing = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(draftRef(lobbyId));
+    if (!snap.exists) return null;
+
+    const match = snap.data() ?? {};
+    if (match.estado !== 'confirmando_jugadores') return null;
+
+    const deadline = match.readyCheckDeadline as admin.firestore.Timestamp | null | undefined;
+    if (deadline && deadline.toMillis() > Date.now()) return null;
+
+    const accepted = normalizeIds(match.readyAccepted);
+    const missing = normalizeIds(match.queue).filter((id) => !accepted.includes(id));
+    abortReadyCheck(tx, lobbyId, match, missing);
+    return missing;
+  });
+  if (missing === null) return false;
+
+  await recordOffenses(
+    missing.map((steamId) => ({ steamId, reason: 'ready_check_failed', source: 'system', lobbyId }))
+  );
+  return true;
+}
+
+/**
+ * Vuelve a esperando_jugadores sin los jugadores removed.
+ * Los que ya aceptaron quedan adelante en la cola.
+ */
+function abortReadyCheck(
+  tx: admin.firestore.Transaction,
+  lobbyId: string,
+  match: any,
+  removed: string[]
+): void {
+  const accepted = normalizeIds(match.readyAccepted).filter((id) => !removed.includes(id));
+  const rest = normalizeIds(match.queue).filter(
+    (id) => !removed.includes(id) && !accepted.includes(id)
+  );
+  const queue = [...accepted, ...rest];
+
+  // Los lobbies extra se cierran si no queda nadie
+  if (lobbyId !== DEFAULT_LOBBY_ID && queue.length === 0) {
+    tx.delete(currentRef(lobbyId));
+    tx.delete(draftRef(lobbyId));
+    return;
+  }
+
+  let premadeRequests = match.premadeRequests;
+  for (const id of removed) premadeRequests = withoutPremadeRequests(premadeRequests, id);
+
+  tx.update(draftRef(lobbyId), {
+    estado: 'esperando_jugadores',
+    queue,
+    readyAccepted: [],
+    readyCheckDeadline: null,
+    premadeRequests,
+    captainVolunteers: normalizeIds(match.captainVolunteers).filter((id) => !removed.includes(id)),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+// Saca los pedidos de premade hechos por/para steamId
+function withoutPremadeRequests(requests: unknown, steamId: string): Record<string, string> {
+  const next: Record<string, string> = {};
+  if (!requests || typeof requests !== 'object') return next;
+  for (const [from, to] of Object.entries(requests as Record<string, unknown>)) {
+    if (from !== steamId && to !== steamId && typeof to === 'string') next[from] = to;
+  }
+  return next;
+}
+
+/**
+ * Pedido de premade (solo modo balanced, mientras se espera jugadores):
+ * A pide jugar con B; si B también pidió jugar con A quedan en el mismo equipo.
+ * withSteamId = null cancela el pedido.
+ */
+export async function setPremadeRequest(
+  lobbyId: string,
+  steamId: string,
+  withSteamId: string | null
+): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const match = await readDraft(tx, lobbyId);
+
+    if (match.estado !== 'esperando_jugadores') {
+      throw new LobbyError(409, `No se puede armar premade: estado = ${match.estado}`);
+    }
+    if (readSettings(match).teamFormation !== 'balanced') {
+      throw new LobbyError(409, 'Los premades solo aplican con equipos balanceados.');
+    }
+
+    const q = normalizeIds(match.queue);
+    if (!q.includes(steamId)) {
+      throw new LobbyError(409, 'Tenés que estar en la cola.');
+    }
+
+    const requests = withoutPremadeRequests(match.premadeRequests, '');
+    delete requests[steamId];
+
+    if (withSteamId) {
+      if (withSteamId === steamId) throw new LobbyError(400, 'No podés armar premade con vos.');
+      if (!q.includes(withSteamId)) {
+        throw new LobbyError(409, 'Ese jugador no está en la cola.');
+      }
+      requests[steamId] = withSteamId;
+    }
+
+    tx.update(draftRef(lobbyId), {
+      premadeRequests: requests,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * "Quiero ser líder" (estrategia volunteers): se puede cambiar mientras estás en la cola.
+ */
+export async function setCaptainVolunteer(
+  lobbyId: string,
+  steamId: string,
+  want: boolean
+): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const match = await readDraft(tx, lobbyId);
+
+    const open = ['esperando_jugadores', 'confirmando_jugadores', 'seleccionando_lideres'];
+    if (!open.includes(match.estado)) {
+      throw new LobbyError(409, `Ya no se puede cambiar: estado = ${match.estado}`);
+    }
+    if (!normalizeIds(match.queue).includes(steamId)) {
+      throw new LobbyError(409, 'Tenés que estar en la cola.');
+    }
+
+    tx.update(draftRef(lobbyId), {
+      captainVolunteers: want
+        ? admin.firestore.FieldValue.arrayUnion(steamId)
+        : admin.firestore.FieldValue.arrayRemove(steamId),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+// Estados con los equipos ya formados (antes de publicar el match)
+const TEAM_ESTADOS: unknown[] = ['armando_equipos', 'seleccionando_mapa', 'eligiendo_lados'];
+
+// Estados en los que todavía no arrancó el veto (se puede cambiar el pool del draft)
+const POOL_EDITABLE_ESTADOS: unknown[] = [
+  'esperando_jugadores',
+  'confirmando_jugadores',
+  'seleccionando_lideres',
+  'armando_equipos',
+];
+
+/**
+ * Cambia la configuración del lobby (admin). Se aplica desde la próxima formación de equipos
+ * (el modo y el pool de mapas se aplican al draft en el momento).
+ */
+export async function updateLobbySettings(lobbyId: string, patch: any): Promise<LobbySettings> {
+  const db = admin.firestore();
+  return db.runTransaction(async (tx) => {
+    const match = await readDraft(tx, lobbyId);
+    const current = readSettings(match);
+    const next: LobbySettings = { ...current };
+
+    if (patch?.mode !== undefined) {
+      if (!isGameMode(patch.mode)) {
+        throw new LobbyError(400, 'mode must be 5v5, 3v3 or wingman');
+      }
+      if (patch.mode !== current.mode) {
+        if (match.estado !== 'esperando_jugadores') {
+          throw new LobbyError(409, 'El modo solo se puede cambiar mientras se esperan jugadores.');
+        }
+        const lobbySize = lobbySizeFor(patch.mode);
+        if (normalizeIds(match.queue).length >= lobbySize) {
+          throw new LobbyError(409, `Hay demasiados jugadores en cola para ${patch.mode}.`);
+        }
+      }
+      next.mode = patch.mode;
+    }
+    const teamSize = modeConfig(next.mode).playersPerTeam;
+    if (next.mode !== current.mode) {
+      // el pool editado era del modo anterior
+      next.mapPool = null;
+      if (!parsePickOrder(next.pickOrder, teamSize)) next.pickOrder = defaultPickOrder(teamSize);
+    }
+
+    if (patch?.teamFormation !== undefined) {
+      if (patch.teamFormation !== 'captains' && patch.teamFormation !== 'balanced') {
+        throw new LobbyError(400, 'teamFormation must be captains or balanced');
+      }
+      next.teamFormation = patch.teamFormation;
+    }
+    if (patch?.captainStrategy !== undefined) {
+      if (!isCaptainStrategy(patch.captainStrategy)) {
+        throw new LobbyError(400, 'Invalid captainStrategy');
+      }
+      next.captainStrategy = patch.captainStrategy;
+    }
+    if (patch?.pickOrder !== undefined) {
+      const pickOrder = String(patch.pickOrder).trim().toUpperCase();
+      if (!parsePickOrder(pickOrder, teamSize)) {
+        throw new LobbyError(
+          400,
+          `pickOrder must be ${pickCountFor(teamSize)} A/B picks, ${teamSize - 1} per team`
+        );
+      }
+      next.pickOrder = pickOrder;
+    }
+    if (patch?.seriesFormat !== undefined) {
+      if (!isSeriesFormat(patch.seriesFormat)) {
+        throw new LobbyError(400, 'seriesFormat must be bo1, bo3 or bo5');
+      }
+      next.seriesFormat = patch.seriesFormat;
+    }
+    if (patch?.mapPool !== undefined) {
+      // null o [] vuelve al pool del modo
+      const empty =
+        patch.mapPool === null || (Array.isArray(patch.mapPool) && patch.mapPool.length === 0);
+      const mapPool = empty ? null : parseMapPool(patch.mapPool);
+      if (!empty && !mapPool) {
+        throw new LobbyError(
+          400,
+          `mapPool must be ${MIN_MAP_POOL_SIZE} to ${MAX_MAP_POOL_SIZE} distinct map names ` +
+            '(ej: de_mirage)'
+        );
+      }
+      if (!POOL_EDITABLE_ESTADOS.includes(match.estado)) {
+        throw new LobbyError(409, 'El pool no se puede cambiar con el veto empezado.');
+      }
+      next.mapPool = mapPool;
+    }
+    if (!supportsSeries(next.seriesFormat, mapPoolFor(next).length)) {
+      throw new LobbyError(400, `El pool de mapas no alcanza para ${next.seriesFormat}`);
+    }
+    if (patch?.readyCheckSeconds !== undefined) {
+      if (!isReadyCheckSeconds(patch.readyCheckSeconds)) {
+        throw new LobbyError(
+          400,
+          `readyCheckSeconds must be an integer between ${READY_CHECK_MIN_SECONDS} and ` +
+            `${READY_CHECK_MAX_SECONDS}`
+        );
+      }
+      next.readyCheckSeconds = patch.readyCheckSeconds;
+    }
+
+    const poolChanged = JSON.stringify(next.mapPool) !== JSON.stringify(current.mapPool);
+    tx.update(draftRef(lobbyId), {
+      settings: next,
+      ...(next.mode !== current.mode || poolChanged ? modeFields(next) : {}),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return next;
+  });
+}
+
+/**
+ * Formación de equipos cuando vence leaderSelectionAt.
+ * - captains: elige 2 líderes -> armando_equipos
+ * - balanced: parte la cola por rating (respetando premades) -> seleccionando_mapa
+ * Los líderes salen de settings.captainStrategy; el seed queda publicado en captainSelection.
+ * Cualquier cliente puede pedirla; el server valida que ya corresponda.
+ * Devuelve true si avanzó el estado.
+ */
+export async function selectLeadersIfDue(lobbyId: string): Promise<boolean> {
+  const db = admin.firestore();
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(draftRef(lobbyId));
+    if (!snap.exists) return false;
+
+    const cur = snap.data() ?? {};
+    if (cur.estado !== 'seleccionando_lideres') return false;
+
+    const selectionAt = cur.leaderSelectionAt as admin.firestore.Timestamp | null | undefined;
+    if (selectionAt && selectionAt.toMillis() > Date.now()) return false;
+
+    const queue = normalizeIds(cur.queue);
+    const teamSize = playersPerTeamOf(cur);
+    if (queue.length !== teamSize * 2) return false;
+
+    const settings = readSettings(cur);
+    const config = await getRatingConfig();
+    const profileRefs = queue.map((id) => db.collection('steamProfiles').doc(id));
+    const profileSnaps = await tx.getAll(...profileRefs);
+
+    const volunteers = normalizeIds(cur.captainVolunteers);
+    const candidates: CaptainCandidate[] = profileSnaps.map((p, idx) => {
+      const lastCaptainedAt = p.get('lastCaptainedAt');
+      return {
+        steamId: queue[idx],
+        rating: readRating(p.data(), config).value,
+        volunteer: volunteers.includes(queue[idx]),
+        lastCaptainedAt:
+          lastCaptainedAt instanceof admin.firestore.Timestamp ? lastCaptainedAt.toMillis() : 0,
+      };
+    });
+
+    const seed = newSeed();
+    const ranking = rankCaptains(candidates, settings.captainStrategy, seed);
+    const update: Record<string, unknown> = {
+      turn: 'team1',
+      leaderSelectionAt: null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    let leaders: [string, string];
+
+    if (settings.teamFormation === 'balanced') {
+      const ratings = Object.fromEntries(candidates.map((c) => [c.steamId, c.rating]));
+      const premades = premadeGroups(cur.premadeRequests ?? {}, queue);
+      const balanced =
+        balanceTeams(queue, ratings, teamSize, premades) ??
+        balanceTeams(queue, ratings, teamSize);
+      if (!balanced) return false;
+
+      // El líder de cada equipo es el mejor rankeado por la estrategia dentro del equipo
+      const leaderFirst = (team: string[]) => {
+        const leader = ranking.find((id) => team.includes(id)) ?? team[0];
+        return [leader, ...team.filter((id) => id !== leader)];
+      };
+      const team1 = leaderFirst(balanced.team1);
+      const team2 = leaderFirst(balanced.team2);
+      leaders = [team1[0], team2[0]];
+
+      Object.assign(update, vetoStartFields(cur), {
+        team1: { name: TEAM1_NAME, players: team1 },
+        team2: { name: TEAM2_NAME, players: team2 },
+        balance: { ...balanced.balance, premades: premades.map((g) => g.join(',')) },
+      });
+    } else {
+      leaders = [ranking[0], ranking[1]];
+      const pickOrder =
+        parsePickOrder(settings.pickOrder, teamSize) ??
+        parsePickOrder(defaultPickOrder(teamSize), teamSize)!;
+
+      Object.assign(update, {
+        estado: 'armando_equipos',
+        pickOrder,
+        turn: pickOrder[0],
+        pickDeadline: deadlineIn(PICK_TIMEOUT_MS),
+        team1: { name: TEAM1_NAME, players: [leaders[0]] },
+        team2: { name: TEAM2_NAME, players: [leaders[1]] },
+        unassigned: queue.filter((id) => !leaders.includes(id)),
+      });
+    }
+
+    const selection: CaptainSelection = {
+      strategy: settings.captainStrategy,
+      seed,
+      algorithm: CAPTAIN_SEED_ALGORITHM,
+      order: ranking,
+      leaders,
+    };
+    update.captainSelection = {
+      ...selection,
+      candidates: candidates.map((c) => ({ ...c })),
+      selectedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    tx.update(draftRef(lobbyId), update);
+    for (const leader of leaders) {
+      tx.set(
+        profileRefs[queue.indexOf(leader)],
+        { lastCaptainedAt: admin.firestore.FieldValue.serverTimestamp() },
+        { merge: true }
+      );
+    }
+    return true;
+  });
+}
+
+/**
+ * Pick:
+ * - solo en estado armando_equipos
+ * - solo si sos líder del team que tiene el turno
+ * - solo si el jugador está en unassigned (o fallback queue si todavía no existe unassigned)
+ * - alterna el turno
+ * - cuando ambos equipos se completan (playersPerTeam) -> pasa a seleccionando_mapa
+ */
+export async function pickPlayer(
+  lobbyId: string,
+  steamId: string,
+  pickedSteamId: string
+): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const match = await readDraft(tx, lobbyId);
+    applyPick(tx, lobbyId, match, pickedSteamId, steamId);
+  });
+}
+
+// Disponibles para pick: unassigned (si existe) sino queue
+function availablePicks(match: any): string[] {
+  return Array.isArray(match.unassigned)
+    ? normalizeIds(match.unassigned)
+    : normalizeIds(match.queue);
+}
+
+/**
+ * Aplica un pick del equipo que tiene el turno.
+ * steamId = líder que pickea; null = pick automático del backend (venció el plazo).
+ */
+function applyPick(
+  tx: admin.firestore.Transaction,
+  lobbyId: string,
+  match: any,
+  pickedSteamId: string,
+  steamId: string | null
+): void {
+  if (match.estado !== 'armando_equipos') {
+    throw new LobbyError(409, `No se puede pickear: estado = ${match.estado}`);
+  }
+
+  const team1 = normalizeIds(match.team1?.players);
+  const team2 = normalizeIds(match.team2?.players);
+  const { leaderA, leaderB } = leadersOf(match);
+
+  if (!leaderA || !leaderB) {
+    throw new LobbyError(409, 'No hay líderes definidos todavía.');
+  }
+
+  // El turno sale de pickOrder según cuántos picks van (cada equipo arranca con su líder)
+  const pickOrder = pickOrderOf(match);
+  const pickIndex = team1.length + team2.length - 2;
+  const turn: TeamKey = pickOrder[pickIndex] ?? (match.turn === 'team2' ? 'team2' : 'team1');
+
+  if (steamId !== null && turn === 'team1' && steamId !== leaderA) {
+    throw new LobbyError(403, 'No sos el líder de Team A o no es tu turno.');
+  }
+  if (steamId !== null && turn === 'team2' && steamId !== leaderB) {
+    throw new LobbyError(403, 'No sos el líder de Team B o no es tu turno.');
+  }
+
+  const unassigned = availablePicks(match);
+
+  if (!unassigned.includes(pickedSteamId)) {
+    throw new LobbyError(409, 'Ese jugador ya no está disponible para pick.');
+  }
+  if (pickedSteamId === leaderA || pickedSteamId === leaderB) {
+    throw new LobbyError(400, 'No podés pickear a un líder.');
+  }
+  if (team1.includes(pickedSteamId) || team2.includes(pickedSteamId)) {
+    throw new LobbyError(409, 'Ese jugador ya está en un equipo.');
+  }
+
+  const teamSize = playersPerTeamOf(match);
+  if (turn === 'team1' && team1.length >= teamSize) {
+    throw new LobbyError(409, 'Team A ya está completo.');
+  }
+  if (turn === 'team2' && team2.length >= teamSize) {
+    throw new LobbyError(409, 'Team B ya está completo.');
+  }
+
+  const nextTeam1 = turn === 'team1' ? [...team1, pickedSteamId] : team1;
+  const nextTeam2 = turn === 'team2' ? [...team2, pickedSteamId] : team2;
+  const bothFull = nextTeam1.length === teamSize && nextTeam2.length === teamSize;
+
+  const update: Record<string, unknown> = {
+    team1: { ...(match.team1 ?? { name: TEAM1_NAME }), players: nextTeam1 },
+    team2: { ...(match.team2 ?? { name: TEAM2_NAME }), players: nextTeam2 },
+    unassigned: unassigned.filter((x) => x !== pickedSteamId),
+    turn: pickOrder[pickIndex + 1] ?? turn,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  if (bothFull) {
+    Object.assign(update, vetoStartFields(match), { pickDeadline: null });
+  } else {
+    update.pickDeadline = deadlineIn(PICK_TIMEOUT_MS);
+  }
+
+  tx.update(draftRef(lobbyId), update);
+}
+
+// Pasos del veto guardados en el draft; los drafts viejos (sin vetoSteps) usan los de bo1
+function vetoStepsOf(match: any): VetoStep[] {
+  if (Array.isArray(match.vetoSteps) && match.vetoSteps.length > 0) {
+    return match.vetoSteps.map(
+      (step: any): VetoStep => ({
+        team: step?.team === 'team2' ? 'team2' : 'team1',
+        action: step?.action === 'pick' ? 'pick' : 'ban',
+      })
+    );
+  }
+  return vetoStepsFor('bo1');
+}
+
+/**
+ * Veto de mapas (ban/pick según vetoSteps del formato de la serie):
+ * - solo en estado seleccionando_mapa
+ * - solo líder del turno
+ * - no permite elegir mapas ya baneados/pickeados
+ * - al terminar los pasos, el mapa que queda es el decider -> maplist = picks + decider
+ *   y pasa a eligiendo_lados
+ */
+export async function vetoMap(lobbyId: string, steamId: string, mapName: string): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const match = await readDraft(tx, lobbyId);
+    applyVeto(tx, lobbyId, match, mapName, steamId);
+  });
+}
+
+// Mapas del pool que todavía no se usaron en el veto
+function remainingMaps(match: any): string[] {
+  const pool: string[] =
+    Array.isArray(match.mapPool) && match.mapPool.length > 0
+      ? [...match.mapPool]
+      : [...DEFAULT_MAP_POOL];
+  const log: VetoLogEntry[] = Array.isArray(match.vetoLog) ? match.vetoLog : [];
+  return pool.filter((m) => !log.some((e) => e.map === m));
+}
+
+/**
+ * Aplica el paso actual del veto (ban o pick) sobre mapName.
+ * steamId = líder con el turno; null = veto automático del backend (venció el plazo).
+ */
+function applyVeto(
+  tx: admin.firestore.Transaction,
+  lobbyId: string,
+  match: any,
+  mapName: string,
+  steamId: string | null
+): void {
+  if (match.estado !== 'seleccionando_mapa') {
+    throw new LobbyError(409, `No se puede vetar: estado = ${match.estado}`);
+  }
+
+  const { leaderA, leaderB } = leadersOf(match);
+  if (!leaderA || !leaderB) {
+    throw new LobbyError(409, 'No hay líderes definidos.');
+  }
+
+  const steps = vetoStepsOf(match);
+  const log: VetoLogEntry[] = Array.isArray(match.vetoLog) ? [...match.vetoLog] : [];
+  const stepIndex = log.length;
+  const step = steps[stepIndex];
+
+  if (!step) {
+    throw new LobbyError(409, 'El veto ya terminó.');
+  }
+  if (steamId !== null && step.team === 'team1' && steamId !== leaderA) {
+    throw new LobbyError(403, 'No sos el líder de Team A o no es tu turno.');
+  }
+  if (steamId !== null && step.team === 'team2' && steamId !== leaderB) {
+    throw new LobbyError(403, 'No sos el líder de Team B o no es tu turno.');
+  }
+
+  const pool: string[] =
+    Array.isArray(match.mapPool) && match.mapPool.length > 0
+      ? [...match.mapPool]
+      : [...DEFAULT_MAP_POOL];
+
+  if (!pool.includes(mapName)) {
+    throw new LobbyError(400, 'Ese mapa no está en el pool.');
+  }
+  if (log.some((e) => e.map === mapName)) {
+    throw new LobbyError(409, 'Ese mapa ya fue vetado.');
+  }
+
+  const nextLog: VetoLogEntry[] = [...log, { team: step.team, action: step.action, map: mapName }];
+  const remaining = pool.filter((m) => !nextLog.some((e) => e.map === m));
+
+  if (remaining.length === 0) {
+    throw new LobbyError(409, 'No quedan mapas disponibles.');
+  }
+
+  const nextStep = steps[stepIndex + 1];
+  const bannedMaps = nextLog.filter((e) => e.action === 'ban').map((e) => e.map);
+
+  const update: Record<string, unknown> = {
+    vetoLog: nextLog,
+    bannedMaps,
+    mapTurn: nextStep?.team ?? null,
+    mapAction: nextStep?.action ?? null,
+    mapBanCount: bannedMaps.length,
+    mapPool: pool,
+    vetoDeadline: nextStep ? deadlineIn(VETO_TIMEOUT_MS) : null,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  if (!nextStep) {
+    // El primero que queda es el decider
+    const finalLog: VetoLogEntry[] = [
+      ...nextLog,
+      { team: null, action: 'decider', map: remaining[0] },
+    ];
+    const maplist = mapListFromVeto(finalLog);
+    const sideSlots = sideSlotsFromVeto(finalLog);
+    Object.assign(update, {
+      vetoLog: finalLog,
+      maplist,
+      map: maplist[0],
+      estado: 'eligiendo_lados',
+      sideSlots,
+      sideTurn: sideSlots[0].chooser,
+      sideChoiceDeadline: sideChoiceDeadline(),
+    });
+  }
+
+  tx.update(draftRef(lobbyId), update);
+}
+
+function deadlineIn(ms: number): admin.firestore.Timestamp {
+  return admin.firestore.Timestamp.fromMillis(Date.now() + ms);
+}
+
+function sideChoiceDeadline(): admin.firestore.Timestamp {
+  return deadlineIn(SIDE_CHOICE_TIMEOUT_MS);
+}
+
+function sideSlotsOf(match: any): SideSlot[] {
+  return Array.isArray(match.sideSlots)
+    ? match.sideSlots.map((slot: any) => ({ ...slot, side: slot?.side ?? null }))
+    : [];
+}
+
+/**
+ * Aplica el lado del slot pendiente. Si era el último, publica el match en matches/current
+ * (autoStartMatch arranca el server a partir de ahí).
+ */
+function applySide(
+  tx: admin.firestore.Transaction,
+  lobbyId: string,
+  match: any,
+  slots: SideSlot[],
+  side: MapSide
+): void {
+  const index = slots.findIndex((slot) => !slot.side);
+  const nextSlots = slots.map((slot, idx) => (idx === index ? { ...slot, side } : slot));
+  const next = nextSlots.find((slot) => !slot.side);
+
+  const update: Record<string, unknown> = {
+    sideSlots: nextSlots,
+    sideTurn: next?.chooser ?? null,
+    sideChoiceDeadline: next ? sideChoiceDeadline() : null,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  if (!next) {
+    const matchId = newMatchId();
+    const maplist = nextSlots.map((slot) => slot.map);
+    const mapSides = nextSlots.map((slot) => slot.side);
+    Object.assign(update, {
+      matchId,
+      mapSides,
+      estado: 'en_curso',
+      publishedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    tx.set(
+      currentRef(lobbyId),
+      {
+        estado: 'seleccionando_mapa',
+        matchId,
+        map: maplist[0],
+        maplist,
+        mapSides,
+        seriesFormat: match.seriesFormat ?? 'bo1',
+        numMaps: maplist.length,
+        mode: modeConfig(match.mode).mode,
+        playersPerTeam: playersPerTeamOf(match),
+        wingman: modeConfig(match.mode).wingman,
+        team1: match.team1,
+        team2: match.team2,
+        queue: [],
+        mapPool: match.mapPool ?? [...DEFAULT_MAP_POOL],
+        bannedMaps: match.bannedMaps ?? [],
+        vetoLog: match.vetoLog ?? [],
+        mapTurn: null,
+        mapBanCount: match.mapBanCount ?? 0,
+        unassigned: [],
+        turn: match.turn ?? 'team1',
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: false }
+    );
+  }
+
+  tx.update(draftRef(lobbyId), update);
+}
+
+/**
+ * Elección de lado del mapa pendiente (estado eligiendo_lados):
+ * - solo el líder del equipo que elige (el que no pickeó el mapa)
+ * - ct / t para su equipo, o knife
+ */
+export async function chooseSide(
+  lobbyId: string,
+  steamId: string,
+  choice: SideChoice
+): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const match = await readDraft(tx, lobbyId);
+
+    if (match.estado !== 'eligiendo_lados') {
+      throw new LobbyError(409, `No se puede elegir lado: estado = ${match.estado}`);
+    }
+
+    const slots = sideSlotsOf(match);
+    const pending = slots.find((slot) => !slot.side);
+    if (!pending) {
+      throw new LobbyError(409, 'Ya se eligieron todos los lados.');
+    }
+
+    const { leaderA, leaderB } = leadersOf(match);
+    const chooserLeader = pending.chooser === 'team1' ? leaderA : leaderB;
+    if (!chooserLeader || steamId !== chooserLeader) {
+      throw new LobbyError(403, 'No sos el líder del equipo que elige lado.');
+    }
+
+    applySide(tx, lobbyId, match, slots, toMapSide(pending.chooser, choice));
+  });
+}
+
+/**
+ * Si venció sideChoiceDeadline, el mapa pendiente queda en knife.
+ * Cualquier cliente puede pedirla; devuelve true si avanzó.
+ */
+export async function expireSideChoiceIfDue(lobbyId: string): Promise<boolean> {
+  const db = admin.firestore();
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(draftRef(lobbyId));
+    if (!snap.exists) return false;
+
+    const match = snap.data() ?? {};
+    if (match.estado !== 'eligiendo_lados') return false;
+
+    const deadline = match.sideChoiceDeadline as admin.firestore.Timestamp | null | undefined;
+    if (deadline && deadline.toMillis() > Date.now()) return false;
+
+    const slots = sideSlotsOf(match);
+    if (!slots.some((slot) => !slot.side)) return false;
+
+    applySide(tx, lobbyId, match, slots, 'knife');
+    return true;
+  });
+}
+
+function isDue(deadline: unknown): boolean {
+  return deadline instanceof admin.firestore.Timestamp && deadline.toMillis() <= Date.now();
+}
+
+/**
+ * Venció el plazo del pick: el backend pickea al mejor rating disponible
+ * (empates al azar). Devuelve true si pickeó.
+ */
+export async function autoPickIfDue(lobbyId: string): Promise<boolean> {
+  const db = admin.firestore();
+  const config = await getRatingConfig();
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(draftRef(lobbyId));
+    const match = snap.data();
+    if (!match || match.estado !== 'armando_equipos' || !isDue(match.pickDeadline)) return false;
+
+    const { leaderA, leaderB } = leadersOf(match);
+    const available = availablePicks(match).filter((id) => id !== leaderA && id !== leaderB);
+    if (available.length === 0) return false;
+
+    const profiles = await tx.getAll(
+      ...available.map((id) => db.collection('steamProfiles').doc(id))
+    );
+    const ratings = profiles.map((p) => readRating(p.data(), config).value);
+    const best = Math.max(...ratings);
+    const top = available.filter((_, idx) => ratings[idx] === best);
+
+    applyPick(tx, lobbyId, match, top[Math.floor(Math.random() * top.length)], null);
+    return true;
+  });
+}
+
+/**
+ * Venció el plazo del veto: se banea (o pickea) un mapa al azar de los que quedan.
+ * Devuelve true si avanzó el veto.
+ */
+export async function autoVetoIfDue(lobbyId: string): Promise<boolean> {
+  const db = admin.firestore();
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(draftRef(lobbyId));
+    const match = snap.data();
+    if (!match || match.estado !== 'seleccionando_mapa' || !isDue(match.vetoDeadline)) {
+      return false;
+    }
+
+    const remaining = remainingMaps(match);
+    if (remaining.length < 2) return false;
+
+    applyVeto(tx, lobbyId, match, remaining[Math.floor(Math.random() * remaining.length)], null);
+    return true;
+  });
+}
+
+/**
+ * Match en_curso que nunca se cerró (sin series_end ni confirmación de líderes):
+ * después de numMaps * MAP_MAX_DURATION_MS se cancela y se libera el servidor.
+ */
+export async function closeStaleMatchIfDue(lobbyId: string): Promise<boolean> {
+  const db = admin.firestore();
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(draftRef(lobbyId));
+    const match = snap.data();
+    if (!match || match.estado !== 'en_curso') return false;
+
+    const publishedAt = match.publishedAt;
+    if (!(publishedAt instanceof admin.firestore.Timestamp)) return false;
+    const numMaps = Array.isArray(match.maplist) && match.maplist.length ? match.maplist.length : 1;
+    if (publishedAt.toMillis() + numMaps * MAP_MAX_DURATION_MS > Date.now()) return false;
+
+    await archiveAndReset(tx, lobbyId, match, {
+      result: 'cancelled',
+      closedBy: 'timeout',
+      cancelReason: 'Match sin cierre (timeout)',
+      cancelledBy: null,
+    });
+    return true;
+  });
+}
+
+export type DeadlineAction = 'ready_check' | 'leaders' | 'pick' | 'veto' | 'sides' | 'stale_match';
+
+/**
+ * Avanza la fase del lobby si venció su plazo (lo llama el scheduler y cualquier cliente).
+ * Devuelve qué hizo, o null si no había nada vencido.
+ */
+export async function advanceLobbyDeadlines(lobbyId: string): Promise<DeadlineAction | null> {
+  const snap = await draftRef(lobbyId).get();
+  const estado = snap.get('estado');
+
+  const handlers: Partial<Record<MatchEstado, [DeadlineAction, () => Promise<boolean>]>> = {
+    confirmando_jugadores: ['ready_check', () => expireReadyCheckIfDue(lobbyId)],
+    seleccionando_lideres: ['leaders', () => selectLeadersIfDue(lobbyId)],
+    armando_equipos: ['pick', () => autoPickIfDue(lobbyId)],
+    seleccionando_mapa: ['veto', () => autoVetoIfDue(lobbyId)],
+    eligiendo_lados: ['sides', () => expireSideChoiceIfDue(lobbyId)],
+    en_curso: ['stale_match', () => closeStaleMatchIfDue(lobbyId)],
+  };
+
+  const handler = isValidEstado(estado) ? handlers[estado] : undefined;
+  if (!handler) return null;
+  const [action, run] = handler;
+  return (await run()) ? action : null;
+}
+
+/**
+ * Confirmación de fin de match por líderes:
+ * - solo en estado en_curso
+ * - cuando ambos líderes confirman -> reset al estado inicial
+ */
+export async function requestFinalizeMatch(lobbyId: string, steamId: string): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const match = await readDraft(tx, lobbyId);
+
+    if (match.estado !== 'en_curso') {
+      throw new LobbyError(409, `No se puede finalizar: estado = ${match.estado}`);
+    }
+
+    const { leaderA, leaderB } = leadersOf(match);
+    if (!leaderA || !leaderB) {
+      throw new LobbyError(409, 'No hay líderes definidos.');
+    }
+    if (steamId !== leaderA && steamId !== leaderB) {
+      throw new LobbyError(403, 'Solo los líderes pueden finalizar el match.');
+    }
+
+    const finalizeBy = normalizeIds(match.finalizeBy);
+    if (finalizeBy.includes(steamId)) return;
+    finalizeBy.push(steamId);
+
+    if (finalizeBy.includes(leaderA) && finalizeBy.includes(leaderB)) {
+      await archiveAndReset(tx, lobbyId, match, { result: 'finished', closedBy: 'finalize' });
+      return;
+    }
+
+    tx.update(draftRef(lobbyId), {
+      finalizeBy,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Match cargado por un admin (/api/match/load): publica live/current y deja el draft en_curso
+ * con el mismo matchId y los mismos equipos, así series_end / cancel / timeout lo cierran y
+ * lo archivan como a cualquier otro. La cola del lobby se descarta. Devuelve el matchId.
+ */
+export async function loadMatch(lobbyId: string, live: Record<string, any>): Promise<string> {
+  const db = admin.firestore();
+  return db.runTransaction(async (tx) => {
+    const draft = await readDraft(tx, lobbyId);
+    if (draft.estado === 'en_curso') {
+      throw new LobbyError(409, 'El match ya está en curso: cancelalo o reseteá el lobby.');
+    }
+
+    const matchId = newMatchId();
+    const maplist: string[] = live.maplist;
+    const seriesFormat = SERIES_FORMATS.find((f) => numMapsFor(f) === maplist.length) ?? 'bo1';
+    tx.set(currentRef(lobbyId), { ...live, matchId }, { merge: false });
+    tx.update(draftRef(lobbyId), {
+      estado: 'en_curso',
+      matchId,
+      map: maplist[0],
+      maplist,
+      mapSides: live.mapSides ?? [],
+      seriesFormat,
+      numMaps: maplist.length,
+      mode: live.mode,
+      playersPerTeam: live.playersPerTeam,
+      wingman: live.wingman,
+      team1: live.team1,
+      team2: live.team2,
+      queue: [],
+      unassigned: [],
+      bannedMaps: [],
+      vetoLog: [],
+      captainSelection: null,
+      finalizeBy: [],
+      publishedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return matchId;
+  });
+}
+
+/**
+ * Cierre automático (ej: series_end de MatchZy): si el match matchId sigue
+ * en_curso, resetea el lobby. Devuelve true si lo cerró.
+ */
+export async function completeMatch(
+  lobbyId: string,
+  matchId: string,
+  winner: TeamKey | null = null
+): Promise<boolean> {
+  const db = admin.firestore();
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(draftRef(lobbyId));
+    if (!snap.exists) return false;
+
+    const match = snap.data() ?? {};
+    if (match.estado !== 'en_curso') return false;
+    if (String(match.matchId ?? '') !== matchId) return false;
+
+    await archiveAndReset(tx, lobbyId, match, {
+      result: 'finished',
+      closedBy: 'series_end',
+      winner,
+    });
+    return true;
+  });
+}
+
+/**
+ * Cancelación (/api/match/cancel): archiva con el motivo y resetea el lobby.
+ * Los permisos (líder/admin) los valida el endpoint.
+ */
+export async function cancelMatch(
+  lobbyId: string,
+  cancelledBy: string,
+  reason: string | null
+): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    // readDraft: sin lobby es 404 (si no, resetLobby crearía uno vacío)
+    const match = await readDraft(tx, lobbyId);
+
+    await archiveAndReset(tx, lobbyId, match, {
+      result: 'cancelled',
+      closedBy: 'cancel',
+      cancelReason: reason,
+      cancelledBy,
+    });
+  });
+}
+
+/**
+ * Reset forzado (admin): archiva el match si había uno y deja el lobby vacío,
+ * sin importar el estado en que haya quedado.
+ */
+export async function forceResetLobby(lobbyId: string, adminSteamId: string): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const match = await readDraft(tx, lobbyId);
+    await archiveAndReset(tx, lobbyId, match, {
+      result: 'cancelled',
+      closedBy: 'admin',
+      cancelReason: 'Reset forzado por un admin',
+      cancelledBy: adminSteamId,
+    });
+  });
+}
+
+// Destino de un jugador movido por un admin (out = kick)
+export type PlayerSlot = 'queue' | 'team1' | 'team2' | 'out';
+
+export function isPlayerSlot(value: unknown): value is PlayerSlot {
+  return value === 'queue' || value === 'team1' || value === 'team2' || value === 'out';
+}
+
+type DraftSlots = { queue: string[]; team1: string[]; team2: string[]; unassigned: string[] };
+
+/**
+ * Cola y equipos del draft después de mover a steamId (el ready check va aparte).
+ * null = sacarlo deja los equipos sin poder llenarse y el draft se cae.
+ */
+export function moveDraftPlayer(match: any, steamId: string, to: PlayerSlot): DraftSlots | null {
+  const estado = match.estado;
+  const teamsFormed = TEAM_ESTADOS.includes(estado);
+  if (teamsFormed) {
+    // los líderes arman los equipos y eligen en el veto: sin ellos el draft no sigue
+    const { leaderA, leaderB } = leadersOf(match);
+    if (steamId === leaderA || steamId === leaderB) {
+      throw new LobbyError(409, 'No se puede mover a un líder con el draft en marcha.');
+    }
+    // el turno del pick sale del tamaño de los equipos
+    if (estado === 'armando_equipos' && to !== 'out') {
+      throw new LobbyError(409, 'Durante los picks solo se puede sacar jugadores.');
+    }
+  }
+
+  const without = (ids: unknown) => normalizeIds(ids).filter((id) => id !== steamId);
+  const queue = without(match.queue);
+  const team1 = without(match.team1?.players);
+  const team2 = without(match.team2?.players);
+  const unassigned = without(match.unassigned);
+  const teamSize = playersPerTeamOf(match);
+
+  // solo el kick achica el draft: un cambio de equipo lo vuelve a sumar abajo
+  if (
+    to === 'out' &&
+    teamsFormed &&
+    team1.length + team2.length + unassigned.length < teamSize * 2
+  ) {
+    return null;
+  }
+
+  if (to === 'queue' && teamsFormed) {
+    throw new LobbyError(409, 'Los equipos ya están armados: movelo a un equipo.');
+  } else if (to === 'queue') {
+    if (queue.length >= teamSize * 2) throw new LobbyError(409, 'La cola está completa.');
+    queue.push(steamId);
+  } else if (to === 'team1' || to === 'team2') {
+    if (!teamsFormed) throw new LobbyError(409, 'Todavía no hay equipos.');
+    const team = to === 'team1' ? team1 : team2;
+    if (team.length >= teamSize) throw new LobbyError(409, 'Ese equipo ya está completo.');
+    team.push(steamId);
+  }
+  return { queue, team1, team2, unassigned };
+}
+
+/**
+ * Mueve (o saca) a un jugador del draft (admin):
+ * - queue: a la cola (antes de que se armen los equipos)
+ * - team1 / team2: solo con los equipos ya formados (no durante los picks), respetando
+ *   playersPerTeam
+ * - out: lo saca de todo (en el ready check cuenta como rechazo y queda penalizado; en el
+ *   draft, si ya no alcanzan los jugadores para los equipos, el draft se cae)
+ * A los líderes no se los toca con el draft en marcha.
+ * Con el match en curso no se toca: hay que cancelarlo o resetear el lobby.
+ */
+export async function movePlayer(
+  lobbyId: string,
+  steamId: string,
+  to: PlayerSlot,
+  adminSteamId: string
+): Promise<void> {
+  const db = admin.firestore();
+  const failedReadyCheck = await db.runTransaction(async (tx): Promise<boolean> => {
+    const match = await readDraft(tx, lobbyId);
+    const estado = match.estado;
+    if (estado === 'en_curso') {
+      throw new LobbyError(409, 'El match ya está en curso: cancelalo o reseteá el lobby.');
+    }
+    if (to !== 'out') {
+      const other = await lobbyOfPlayer(tx, steamId);
+      if (other && other !== lobbyId) throw new LobbyError(409, 'Ese jugador está en otro lobby.');
+    }
+
+    if (estado === 'confirmando_jugadores') {
+      if (to !== 'out') {
+        throw new LobbyError(409, 'Durante el ready check solo se puede sacar jugadores.');
+      }
+      if (!normalizeIds(match.queue).includes(steamId)) return false;
+      abortReadyCheck(tx, lobbyId, match, [steamId]);
+      return true;
+    }
+
+    const slots = moveDraftPlayer(match, steamId, to);
+    // Sin jugadores para llenar los equipos el draft se cae (los demás vuelven a la cola)
+    if (!slots) {
+      abortDraft(tx, lobbyId, match, [steamId]);
+      return false;
+    }
+    const { queue, team1, team2, unassigned } = slots;
+    const teamsFormed = TEAM_ESTADOS.includes(estado);
+    const teamSize = playersPerTeamOf(match);
+
+    const update: Record<string, unknown> = {
+      queue,
+      team1: { ...(match.team1 ?? { name: TEAM1_NAME }), players: team1 },
+      team2: { ...(match.team2 ?? { name: TEAM2_NAME }), players: team2 },
+      premadeRequests: withoutPremadeRequests(match.premadeRequests, steamId),
+      captainVolunteers: normalizeIds(match.captainVolunteers).filter((id) => id !== steamId),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    if (teamsFormed) update.unassigned = unassigned;
+
+    if (estado === 'esperando_jugadores' && queue.length === teamSize * 2) {
+      Object.assign(update, readyCheckFields(match));
+    }
+    // sin la cola completa no se pueden elegir líderes: vuelve a esperar
+    if (estado === 'seleccionando_lideres' && queue.length < teamSize * 2) {
+      Object.assign(update, { estado: 'esperando_jugadores', leaderSelectionAt: null });
+    }
+
+    tx.update(draftRef(lobbyId), update);
+    return false;
+  });
+
+  // sacarlo del ready check es igual que si lo hubiera rechazado
+  if (failedReadyCheck) {
+    await recordOffenses([
+      {
+        steamId,
+        reason: 'ready_check_failed',
+        source: 'admin',
+        lobbyId,
+        reportedBy: adminSteamId,
+      },
+    ]);
+  }
+}
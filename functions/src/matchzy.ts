@@ -0,0 +1,305 @@
+import * as admin from 'firebase-admin';
+import { timingSafeEqual } from 'crypto';
+import { LobbyError, TeamKey, completeMatch, liveMatchRef } from './lobby.js';
+import { recordOffenses } from './penalties.js';
+import { notifyMatchStarted } from './discord.js';
+
+// Header que MatchZy manda en cada evento (matchzy_remote_log_header_key/value)
+export const MATCHZY_SECRET_HEADER = 'X-MatchZy-Secret';
+
+const MATCH_EVENTS_COLLECTION = 'matchEvents';
+
+type MatchzyPlayerStats = {
+  name: string;
+  team: TeamKey;
+  kills: number;
+  deaths: number;
+  assists: number;
+  damage: number;
+  headshotKills: number;
+};
+
+/**
+ * Comandos de consola para que MatchZy mande sus eventos a /api/matchzy/events?lobbyId=...
+ */
+export function matchzyRemoteLogCommands(eventsUrl: string, secret: string): string[] {
+  return [
+    `matchzy_remote_log_url "${eventsUrl}"`,
+    `matchzy_remote_log_header_key "${MATCHZY_SECRET_HEADER}"`,
+    `matchzy_remote_log_header_value "${secret}"`,
+  ];
+}
+
+export function isValidMatchzySecret(provided: unknown, expected: string): boolean {
+  if (typeof provided !== 'string' || !provided || !expected) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function toNumber(value: unknown): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function toTeamKey(value: unknown): TeamKey | null {
+  return value === 'team1' || value === 'team2' ? value : null;
+}
+
+// Cómo se ganó la ronda (para el timeline del scoreboard)
+export type RoundWinReason =
+  | 'bomb_exploded'
+  | 'bomb_defused'
+  | 'elimination'
+  | 'time'
+  | 'surrender'
+  | 'other';
+
+export type RoundResult = {
+  mapNumber: number;
+  // 1-based dentro del mapa
+  round: number;
+  winner: TeamKey | null;
+  side: 'ct' | 't' | null;
+  reason: RoundWinReason;
+};
+
+/**
+ * MatchZy manda el RoundEndReason de CS2 como número:
+ * 1 explotó la bomba, 7 defuse, 8/9 eliminación (CT/T), 12 se acabó el tiempo, 17/18 rendición.
+ */
+export function roundWinReason(value: unknown): RoundWinReason {
+  switch (toNumber(value)) {
+    case 1:
+      return 'bomb_exploded';
+    case 7:
+      return 'bomb_defused';
+    case 8:
+    case 9:
+      return 'elimination';
+    case 12:
+      return 'time';
+    case 17:
+    case 18:
+      return 'surrender';
+    default:
+      return 'other';
+  }
+}
+
+// Defaults de MatchZy: MR12 (MR8 en wingman) y overtime MR3
+const OVERTIME_HALF_ROUNDS = 3;
+
+/**
+ * Mitad en juego según las rondas ya jugadas del mapa.
+ * overtime = 0 en tiempo reglamentario, 1.. en cada overtime (cada uno con sus 2 mitades).
+ */
+export function halfOf(roundsPlayed: number, wingman: boolean): { half: 1 | 2; overtime: number } {
+  const halfRounds = wingman ? 8 : 12;
+  if (roundsPlayed < halfRounds * 2) {
+    return { half: roundsPlayed < halfRounds ? 1 : 2, overtime: 0 };
+  }
+  const otPlayed = roundsPlayed - halfRounds * 2;
+  return {
+    half: otPlayed % (OVERTIME_HALF_ROUNDS * 2) < OVERTIME_HALF_ROUNDS ? 1 : 2,
+    overtime: Math.floor(otPlayed / (OVERTIME_HALF_ROUNDS * 2)) + 1,
+  };
+}
+
+// round_end / map_result traen team1/team2 con players[].stats
+function extractPlayerStats(payload: any): Record<string, MatchzyPlayerStats> {
+  const stats: Record<string, MatchzyPlayerStats> = {};
+  for (const team of ['team1', 'team2'] as const) {
+    const players = Array.isArray(payload?.[team]?.players) ? payload[team].players : [];
+    for (const p of players) {
+      const steamId = p?.steamid != null ? String(p.steamid) : '';
+      if (!steamId) continue;
+      stats[steamId] = {
+        name: typeof p?.name === 'string' ? p.name : steamId,
+        team,
+        kills: toNumber(p?.stats?.kills),
+        deaths: toNumber(p?.stats?.deaths),
+        assists: toNumber(p?.stats?.assists),
+        damage: toNumber(p?.stats?.damage),
+        headshotKills: toNumber(p?.stats?.headshot_kills),
+      };
+    }
+  }
+  return stats;
+}
+
+// Resumen "live" que se guarda en lobbies/{lobbyId}/live/current para el dashboard
+function liveUpdateFor(
+  event: string,
+  payload: any,
+  maplist: string[],
+  wingman: boolean
+): Record<string, unknown> | null {
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  switch (event) {
+    case 'series_start':
+      return {
+        'live.status': 'warmup',
+        'live.numMaps': toNumber(payload?.num_maps) || 1,
+        'live.updatedAt': now,
+      };
+    case 'going_live':
+      return {
+        'live.status': 'live',
+        'live.mapNumber': toNumber(payload?.map_number),
+        'live.round': 0,
+        'live.half': 1,
+        'live.overtime': 0,
+        'live.team1Score': 0,
+        'live.team2Score': 0,
+        // las stats de MatchZy son por mapa
+        'live.players': {},
+        'live.updatedAt': now,
+      };
+    case 'round_end': {
+      const mapNumber = toNumber(payload?.map_number);
+      const team1Score = toNumber(payload?.team1?.score);
+      const team2Score = toNumber(payload?.team2?.score);
+      const played = team1Score + team2Score;
+      const { half, overtime } = halfOf(played, wingman);
+      const side = payload?.winner?.side;
+      const result: RoundResult = {
+        mapNumber,
+        round: played,
+        winner: toTeamKey(payload?.winner?.team),
+        side: side === 'ct' || side === 't' ? side : null,
+        reason: roundWinReason(payload?.reason),
+      };
+      const update: Record<string, unknown> = {
+        'live.mapNumber': mapNumber,
+        'live.round': toNumber(payload?.round_number),
+        'live.roundsPlayed': played,
+        'live.half': half,
+        'live.overtime': overtime,
+        'live.team1Score': team1Score,
+        'live.team2Score': team2Score,
+        // arrayUnion: un reintento del mismo evento no duplica la ronda
+        roundResults: admin.firestore.FieldValue.arrayUnion(result),
+        'live.updatedAt': now,
+      };
+      const players = extractPlayerStats(payload);
+      if (Object.keys(players).length > 0) update['live.players'] = players;
+      return update;
+    }
+    case 'map_result': {
+      // map_number es 0-based sobre el maplist de la serie
+      const mapNumber = toNumber(payload?.map_number);
+      const update: Record<string, unknown> = {
+        'live.status': 'map_end',
+        'live.team1SeriesScore': toNumber(payload?.team1?.series_score),
+        'live.team2SeriesScore': toNumber(payload?.team2?.series_score),
+        mapResults: admin.firestore.FieldValue.arrayUnion({
+          mapNumber,
+          map: maplist[mapNumber] ?? null,
+          winner: toTeamKey(payload?.winner?.team),
+          team1Score: toNumber(payload?.team1?.score),
+          team2Score: toNumber(payload?.team2?.score),
+        }),
+        'live.updatedAt': now,
+      };
+      const players = extractPlayerStats(payload);
+      if (Object.keys(players).length > 0) update['live.players'] = players;
+      return update;
+    }
+    // desconectados que no volvieron = abandono al terminar la serie
+    case 'player_disconnect':
+    case 'player_connect': {
+      const steamId = payload?.player?.steamid != null ? String(payload.player.steamid) : '';
+      if (!/^\d{15,20}$/.test(steamId)) return null;
+      return {
+        [`disconnected.${steamId}`]:
+          event === 'player_disconnect' ? now : admin.firestore.FieldValue.delete(),
+      };
+    }
+    case 'series_end':
+      return {
+        'live.status': 'finished',
+        'live.winner': toTeamKey(payload?.winner?.team),
+        'live.team1SeriesScore': toNumber(payload?.team1_series_score),
+        'live.team2SeriesScore': toNumber(payload?.team2_series_score),
+        'live.updatedAt': now,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Los que se desconectaron y no volvieron antes del series_end abandonaron el match.
+ * Solo cuenta a los jugadores del match (no a espectadores / coaches).
+ */
+async function penalizeAbandons(lobbyId: string, matchId: string, cur: any): Promise<void> {
+  const players = new Set<string>([
+    ...(Array.isArray(cur?.team1?.players) ? cur.team1.players : []),
+    ...(Array.isArray(cur?.team2?.players) ? cur.team2.players : []),
+  ]);
+  const abandoned = Object.keys(cur?.disconnected ?? {}).filter((id) => players.has(id));
+  await recordOffenses(
+    abandoned.map((steamId) => ({
+      steamId,
+      reason: 'abandoned_match',
+      source: 'server',
+      lobbyId,
+      matchId,
+    }))
+  );
+}
+
+/**
+ * Guarda un evento de MatchZy bajo el match actual del lobby y actualiza el resumen live.
+ * series_end cierra el match (sale de en_curso) sin esperar a los líderes.
+ */
+export async function ingestMatchzyEvent(
+  lobbyId: string,
+  payload: any
+): Promise<{ matchId: string; event: string; finished: boolean }> {
+  const event = typeof payload?.event === 'string' ? payload.event : '';
+  if (!event) throw new LobbyError(400, 'Missing event');
+
+  const db = admin.firestore();
+  const ref = liveMatchRef(lobbyId);
+  const snap = await ref.get();
+  const cur = snap.data() as any;
+
+  const matchId = cur?.matchId != null ? String(cur.matchId) : '';
+  if (!matchId) throw new LobbyError(409, 'No hay match en curso');
+  if (payload?.matchid != null && String(payload.matchid) !== matchId) {
+    throw new LobbyError(409, `matchid ${payload.matchid} no corresponde al match actual`);
+  }
+
+  await db
+    .collection(MATCH_EVENTS_COLLECTION)
+    .doc(matchId)
+    .collection('events')
+    .add({
+      event,
+      mapNumber: payload?.map_number ?? null,
+      payload,
+      receivedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+  const maplist = Array.isArray(cur?.maplist) ? cur.maplist : cur?.map ? [cur.map] : [];
+  const update = liveUpdateFor(event, payload, maplist, cur?.wingman === true);
+  if (update) {
+    await ref.update({ ...update, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+  }
+
+  // arranque real de la serie (el going_live del primer mapa)
+  if (event === 'going_live' && toNumber(payload?.map_number) === 0) {
+    await notifyMatchStarted(lobbyId, cur);
+  }
+
+  let finished = false;
+  if (event === 'series_end') {
+    finished = await completeMatch(lobbyId, matchId, toTeamKey(payload?.winner?.team));
+    if (finished) await penalizeAbandons(lobbyId, matchId, cur);
+  }
+
+  return { matchId, event, finished };
+}
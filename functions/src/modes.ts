@@ -0,0 +1,50 @@
+// Modos de juego del lobby: jugadores por equipo, pool de mapas y settings de MatchZy
+export type GameMode = '5v5' | '3v3' | 'wingman';
+
+export const GAME_MODES_LIST: GameMode[] = ['5v5', '3v3', 'wingman'];
+
+export type ModeConfig = {
+  mode: GameMode;
+  playersPerTeam: number;
+  mapPool: readonly string[];
+  // MatchZy: wingman = true carga el modo 2v2 (spawns y rondas de wingman)
+  wingman: boolean;
+};
+
+export const DEFAULT_GAME_MODE: GameMode = '5v5';
+
+export const DEFAULT_MAP_POOL = [
+  'de_inferno',
+  'de_mirage',
+  'de_nuke',
+  'de_overpass',
+  'de_ancient',
+  'de_vertigo',
+  'de_anubis',
+] as const;
+
+export const WINGMAN_MAP_POOL = ['de_inferno', 'de_nuke', 'de_overpass', 'de_vertigo'] as const;
+
+const MODES: Record<GameMode, ModeConfig> = {
+  '5v5': { mode: '5v5', playersPerTeam: 5, mapPool: DEFAULT_MAP_POOL, wingman: false },
+  '3v3': { mode: '3v3', playersPerTeam: 3, mapPool: DEFAULT_MAP_POOL, wingman: false },
+  wingman: { mode: 'wingman', playersPerTeam: 2, mapPool: WINGMAN_MAP_POOL, wingman: true },
+};
+
+export function isGameMode(value: unknown): value is GameMode {
+  return typeof value === 'string' && GAME_MODES_LIST.includes(value as GameMode);
+}
+
+export function modeConfig(mode: unknown): ModeConfig {
+  return MODES[isGameMode(mode) ? mode : DEFAULT_GAME_MODE];
+}
+
+export function lobbySizeFor(mode: unknown): number {
+  return modeConfig(mode).playersPerTeam * 2;
+}
+
+// Jugadores por equipo de un draft/match (los docs de antes de los modos son 5v5)
+export function playersPerTeamOf(doc: any): number {
+  const size = Number(doc?.playersPerTeam);
+  return Number.isInteger(size) && size > 0 ? size : modeConfig(doc?.mode).playersPerTeam;
+}
@@ -0,0 +1,210 @@
+import * as admin from 'firebase-admin';
+import { LobbyError } from './lobby.js';
+
+// penalties/{steamId} = ofensas del jugador + cooldown vigente para entrar a la cola
+export const PENALTIES_COLLECTION = 'penalties';
+
+export type OffenseReason = 'ready_check_failed' | 'left_draft' | 'abandoned_match';
+
+export const OFFENSE_REASONS: OffenseReason[] = [
+  'ready_check_failed',
+  'left_draft',
+  'abandoned_match',
+];
+
+// system = lo detectó el lobby (ready check / presencia), server = eventos de MatchZy
+export type OffenseSource = 'system' | 'server' | 'admin';
+
+export type Offense = {
+  id: string;
+  reason: OffenseReason;
+  source: OffenseSource;
+  lobbyId: string | null;
+  matchId: string | null;
+  note: string | null;
+  reportedBy: string | null;
+  at: admin.firestore.Timestamp;
+  pardonedAt: admin.firestore.Timestamp | null;
+  pardonedBy: string | null;
+};
+
+export type NewOffense = {
+  steamId: string;
+  reason: OffenseReason;
+  source: OffenseSource;
+  lobbyId?: string | null;
+  matchId?: string | null;
+  note?: string | null;
+  reportedBy?: string | null;
+};
+
+// Solo cuentan para escalar las ofensas (no perdonadas) de los últimos 7 días
+export const OFFENSE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 1ra ofensa 5 min, 2da 30 min, 3ra 2 h, de ahí en adelante 24 h
+export const COOLDOWN_STEPS_MS = [5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 24 * 60 * 60_000];
+
+// Se guarda un historial acotado por jugador
+const MAX_OFFENSES = 50;
+
+export function isOffenseReason(value: unknown): value is OffenseReason {
+  return typeof value === 'string' && OFFENSE_REASONS.includes(value as OffenseReason);
+}
+
+/**
+ * Fin del cooldown (ms) para las ofensas activas dadas (millis de cada una).
+ * El escalón sale de cuántas hubo en la ventana y corre desde la última.
+ */
+export function cooldownUntilMs(offenseTimes: number[], now = Date.now()): number | null {
+  const recent = offenseTimes.filter((t) => t > now - OFFENSE_WINDOW_MS).sort((a, b) => a - b);
+  if (recent.length === 0) return null;
+
+  const step = COOLDOWN_STEPS_MS[Math.min(recent.length, COOLDOWN_STEPS_MS.length) - 1];
+  const until = recent[recent.length - 1] + step;
+  return until > now ? until : null;
+}
+
+function readOffenses(data: any): Offense[] {
+  return Array.isArray(data?.offenses) ? data.offenses : [];
+}
+
+function activeTimes(offenses: Offense[]): number[] {
+  return offenses.filter((o) => !o.pardonedAt).map((o) => o.at.toMillis());
+}
+
+function cooldownTimestamp(offenses: Offense[]): admin.firestore.Timestamp | null {
+  const until = cooldownUntilMs(activeTimes(offenses));
+  return until !== null ? admin.firestore.Timestamp.fromMillis(until) : null;
+}
+
+export function penaltyRef(steamId: string) {
+  return admin.firestore().collection(PENALTIES_COLLECTION).doc(steamId);
+}
+
+/**
+ * Lee el cooldown del jugador dentro de una tx (antes de los writes).
+ * Si está penalizado falla con 403 y el tiempo que le falta.
+ */
+export async function assertNotPenalized(
+  tx: admin.firestore.Transaction,
+  steamId: string
+): Promise<void> {
+  const snap = await tx.get(penaltyRef(steamId));
+  const until = cooldownUntilMs(activeTimes(readOffenses(snap.data())));
+  if (until === null) return;
+
+  const minutes = Math.ceil((until - Date.now()) / 60_000);
+  throw new LobbyError(
+    403,
+    `Estás penalizado por abandonar: podés volver a la cola en ${minutes} min.`
+  );
+}
+
+/**
+ * Registra ofensas (una o varias por jugador) y recalcula el cooldown de cada uno.
+ * Va en su propia tx, después de la acción del lobby que la detectó.
+ */
+export async function recordOffenses(entries: NewOffense[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const db = admin.firestore();
+  const steamIds = [...new Set(entries.map((e) => e.steamId))];
+  await db.runTransaction(async (tx) => {
+    const snaps = await tx.getAll(...steamIds.map((id) => penaltyRef(id)));
+    const now = admin.firestore.Timestamp.now();
+
+    snaps.forEach((snap, idx) => {
+      const steamId = steamIds[idx];
+      const added: Offense[] = entries
+        .filter((e) => e.steamId === steamId)
+        .map((e) => ({
+          id: db.collection(PENALTIES_COLLECTION).doc().id,
+          reason: e.reason,
+          source: e.source,
+          lobbyId: e.lobbyId ?? null,
+          matchId: e.matchId ?? null,
+          note: e.note ?? null,
+          reportedBy: e.reportedBy ?? null,
+          at: now,
+          pardonedAt: null,
+          pardonedBy: null,
+        }));
+      const offenses = [...readOffenses(snap.data()), ...added].slice(-MAX_OFFENSES);
+
+      tx.set(snap.ref, {
+        steamId,
+        offenses,
+        cooldownUntil: cooldownTimestamp(offenses),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+  });
+}
+
+/**
+ * Perdona una ofensa (o todas si offenseId es null) y recalcula el cooldown (admin).
+ */
+export async function pardonOffenses(
+  steamId: string,
+  offenseId: string | null,
+  adminSteamId: string
+): Promise<void> {
+  const db = admin.firestore();
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(penaltyRef(steamId));
+    if (!snap.exists) throw new LobbyError(404, 'El jugador no tiene penalizaciones.');
+
+    const offenses = readOffenses(snap.data());
+    if (offenseId && !offenses.some((o) => o.id === offenseId)) {
+      throw new LobbyError(404, 'Ofensa no existe.');
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const updated = offenses.map((o) =>
+      !o.pardonedAt && (!offenseId || o.id === offenseId)
+        ? { ...o, pardonedAt: now, pardonedBy: adminSteamId }
+        : o
+    );
+    tx.update(snap.ref, {
+      offenses: updated,
+      cooldownUntil: cooldownTimestamp(updated),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+export type PenaltySummary = {
+  steamId: string;
+  cooldownUntil: string | null;
+  offenses: Array<
+    Omit<Offense, 'at' | 'pardonedAt'> & { at: string; pardonedAt: string | null }
+  >;
+};
+
+/**
+ * Penalizaciones para el panel de admin: las más recientes primero.
+ */
+export async function listPenalties(limit = 50): Promise<PenaltySummary[]> {
+  const snap = await admin
+    .firestore()
+    .collection(PENALTIES_COLLECTION)
+    .orderBy('updatedAt', 'desc')
+    .limit(limit)
+    .get();
+
+  return snap.docs.map((doc) => {
+    const offenses = readOffenses(doc.data());
+    const until = cooldownUntilMs(activeTimes(offenses));
+    return {
+      steamId: doc.id,
+      cooldownUntil: until !== null ? new Date(until).toISOString() : null,
+      offenses: offenses
+        .map((o) => ({
+          ...o,
+          at: o.at.toDate().toISOString(),
+          pardonedAt: o.pardonedAt ? o.pardonedAt.toDate().toISOString() : null,
+        }))
+        .reverse(),
+    };
+  });
+}
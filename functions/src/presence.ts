@@ -0,0 +1,52 @@
+import * as admin from 'firebase-admin';
+
+// presence/{steamId} = último latido del cliente (el dashboard late cada ~20s)
+export const PRESENCE_COLLECTION = 'presence';
+
+// Sin latidos por más de esto el jugador sale de la cola.
+// Holgado porque el browser puede frenar los timers de una pestaña en segundo plano (~1/min).
+export const PRESENCE_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Los que entran desde Discord no tienen el dashboard abierto: su entrada vale más tiempo
+// (cada /queue join la renueva)
+export const DISCORD_PRESENCE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export type PresenceVia = 'web' | 'discord';
+
+export type QueueRemovalReason = 'inactive';
+
+export type QueueRemoval = {
+  steamId: string;
+  reason: QueueRemovalReason;
+  // último latido (null si nunca latió)
+  lastSeenAt: string | null;
+};
+
+export function presenceRef(steamId: string) {
+  return admin.firestore().collection(PRESENCE_COLLECTION).doc(steamId);
+}
+
+// Campos de un latido (también se escriben al entrar a la cola)
+export function heartbeatFields(
+  steamId: string,
+  via: PresenceVia = 'web'
+): Record<string, unknown> {
+  return {
+    steamId,
+    via,
+    lastSeenAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
+
+export async function recordHeartbeat(steamId: string): Promise<void> {
+  await presenceRef(steamId).set(heartbeatFields(steamId), { merge: true });
+}
+
+export function lastSeenMillis(snap: admin.firestore.DocumentSnapshot): number | null {
+  const lastSeen = snap.get('lastSeenAt') as admin.firestore.Timestamp | null | undefined;
+  return lastSeen ? lastSeen.toMillis() : null;
+}
+
+export function presenceTimeoutFor(snap: admin.firestore.DocumentSnapshot): number {
+  return snap.get('via') === 'discord' ? DISCORD_PRESENCE_TIMEOUT_MS : PRESENCE_TIMEOUT_MS;
+}
@@ -0,0 +1,254 @@
+import * as admin from 'firebase-admin';
+import { MATCH_HISTORY_COLLECTION } from './history.js';
+import type { TeamKey } from './lobby.js';
+
+const STEAM_PROFILES_COLLECTION = 'steamProfiles';
+// Overrides opcionales de los parámetros (config/ratings)
+const RATING_CONFIG_PATH = 'config/ratings';
+
+export type RatingConfig = {
+  initial: number;
+  kFactor: number;
+  // durante los primeros provisionalGames se usa un K más alto para converger rápido
+  provisionalKFactor: number;
+  provisionalGames: number;
+};
+
+export const DEFAULT_RATING_CONFIG: RatingConfig = {
+  initial: 1500,
+  kFactor: 32,
+  provisionalKFactor: 64,
+  provisionalGames: 10,
+};
+
+export type PlayerRating = {
+  value: number;
+  games: number;
+  wins: number;
+  losses: number;
+  provisional: boolean;
+  lastMatchId: string | null;
+};
+
+export async function getRatingConfig(): Promise<RatingConfig> {
+  const snap = await admin.firestore().doc(RATING_CONFIG_PATH).get();
+  const data = (snap.data() ?? {}) as Partial<Record<keyof RatingConfig, unknown>>;
+  const pick = (key: keyof RatingConfig) => {
+    const n = Number(data[key]);
+    return Number.isFinite(n) && n > 0 ? n : DEFAULT_RATING_CONFIG[key];
+  };
+  return {
+    initial: pick('initial'),
+    kFactor: pick('kFactor'),
+    provisionalKFactor: pick('provisionalKFactor'),
+    provisionalGames: pick('provisionalGames'),
+  };
+}
+
+export function initialRating(config: RatingConfig): PlayerRating {
+  return {
+    value: config.initial,
+    games: 0,
+    wins: 0,
+    losses: 0,
+    provisional: true,
+    lastMatchId: null,
+  };
+}
+
+export function readRating(data: any, config: RatingConfig): PlayerRating {
+  const r = data?.rating;
+  if (!r || typeof r !== 'object' || !Number.isFinite(Number(r.value))) {
+    return initialRating(config);
+  }
+  const games = Number(r.games) || 0;
+  return {
+    value: Number(r.value),
+    games,
+    wins: Number(r.wins) || 0,
+    losses: Number(r.losses) || 0,
+    provisional: games < config.provisionalGames,
+    lastMatchId: typeof r.lastMatchId === 'string' ? r.lastMatchId : null,
+  };
+}
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Elo por equipos: cada jugador se compara contra el promedio del equipo rival
+ * (expected score con promedios de equipo) y ajusta con su propio K.
+ */
+export function applyMatchResult(
+  ratings: Record<string, PlayerRating>,
+  team1: string[],
+  team2: string[],
+  winner: TeamKey,
+  matchId: string,
+  config: RatingConfig
+): Record<string, PlayerRating> {
+  const avg1 = average(team1.map((id) => ratings[id].value));
+  const avg2 = average(team2.map((id) => ratings[id].value));
+  const expected1 = 1 / (1 + Math.pow(10, (avg2 - avg1) / 400));
+
+  const next: Record<string, PlayerRating> = {};
+  for (const [team, expected, won] of [
+    [team1, expected1, winner === 'team1'],
+    [team2, 1 - expected1, winner === 'team2'],
+  ] as const) {
+    for (const id of team) {
+      const cur = ratings[id];
+      const k = cur.games < config.provisionalGames ? config.provisionalKFactor : config.kFactor;
+      const games = cur.games + 1;
+      next[id] = {
+        value: Math.round(cur.value + k * ((won ? 1 : 0) - expected)),
+        games,
+        wins: cur.wins + (won ? 1 : 0),
+        losses: cur.losses + (won ? 0 : 1),
+        provisional: games < config.provisionalGames,
+        lastMatchId: matchId,
+      };
+    }
+  }
+  return next;
+}
+
+function ratableEntry(entry: any): { team1: string[]; team2: string[]; winner: TeamKey } | null {
+  if (entry?.outcome !== 'finished') return null;
+  const winner = entry?.winner;
+  if (winner !== 'team1' && winner !== 'team2') return null;
+  const team1: string[] = Array.isArray(entry?.team1?.players) ? entry.team1.players : [];
+  const team2: string[] = Array.isArray(entry?.team2?.players) ? entry.team2.players : [];
+  if (team1.length === 0 || team2.length === 0) return null;
+  return { team1, team2, winner };
+}
+
+/**
+ * Aplica el resultado de matchHistory/{matchId} a los ratings (una sola vez: ratingsApplied).
+ * Devuelve true si actualizó.
+ */
+export async function applyRatingsForMatch(matchId: string): Promise<boolean> {
+  const db = admin.firestore();
+  const config = await getRatingConfig();
+  const historyRef = db.collection(MATCH_HISTORY_COLLECTION).doc(matchId);
+
+  return db.runTransaction(async (tx) => {
+    const historySnap = await tx.get(historyRef);
+    const entry = historySnap.data();
+    if (!entry || entry.ratingsApplied) return false;
+
+    const ratable = ratableEntry(entry);
+    if (!ratable) return false;
+
+    const ids = [...ratable.team1, ...ratable.team2];
+    const refs = ids.map((id) => db.collection(STEAM_PROFILES_COLLECTION).doc(id));
+    const snaps = await tx.getAll(...refs);
+
+    const ratings: Record<string, PlayerRating> = {};
+    snaps.forEach((snap, idx) => {
+      ratings[ids[idx]] = readRating(snap.data(), config);
+    });
+
+    const next = applyMatchResult(
+      ratings,
+      ratable.team1,
+      ratable.team2,
+      ratable.winner,
+      matchId,
+      config
+    );
+
+    const ratingChanges: Record<string, number> = {};
+    refs.forEach((ref, idx) => {
+      const id = ids[idx];
+      ratingChanges[id] = next[id].value - ratings[id].value;
+      tx.set(
+        ref,
+        { rating: { ...next[id], updatedAt: admin.firestore.FieldValue.serverTimestamp() } },
+        { merge: true }
+      );
+    });
+
+    tx.update(historyRef, { ratingsApplied: true, ratingChanges });
+    return true;
+  });
+}
+
+/**
+ * Recalcula todos los ratings re-jugando el historial completo en orden cronológico.
+ */
+export async function recalculateAllRatings(): Promise<{ matches: number; players: number }> {
+  const db = admin.firestore();
+  const config = await getRatingConfig();
+
+  const historySnap = await db
+    .collection(MATCH_HISTORY_COLLECTION)
+    .orderBy('finishedAt', 'asc')
+    .get();
+
+  const ratings: Record<string, PlayerRating> = {};
+  const changesByMatch: Record<string, Record<string, number>> = {};
+  let matches = 0;
+
+  for (const doc of historySnap.docs) {
+    const ratable = ratableEntry(doc.data());
+    if (!ratable) continue;
+
+    for (const id of [...ratable.team1, ...ratable.team2]) {
+      ratings[id] ??= initialRating(config);
+    }
+
+    const next = applyMatchResult(
+      ratings,
+      ratable.team1,
+      ratable.team2,
+      ratable.winner,
+      doc.id,
+      config
+    );
+    changesByMatch[doc.id] = {};
+    for (const [id, rating] of Object.entries(next)) {
+      changesByMatch[doc.id][id] = rating.value - ratings[id].value;
+      ratings[id] = rating;
+    }
+    matches++;
+  }
+
+  // Jugadores con rating que ya no aparecen en el historial vuelven al inicial
+  const profilesSnap = await db.collection(STEAM_PROFILES_COLLECTION).get();
+  for (const doc of profilesSnap.docs) {
+    if (doc.get('rating') !== undefined && !ratings[doc.id]) {
+      ratings[doc.id] = initialRating(config);
+    }
+  }
+
+  let batch = db.batch();
+  let ops = 0;
+  const commitIfFull = async () => {
+    if (++ops < 400) return;
+    await batch.commit();
+    batch = db.batch();
+    ops = 0;
+  };
+
+  for (const [id, rating] of Object.entries(ratings)) {
+    batch.set(
+      db.collection(STEAM_PROFILES_COLLECTION).doc(id),
+      { rating: { ...rating, updatedAt: admin.firestore.FieldValue.serverTimestamp() } },
+      { merge: true }
+    );
+    await commitIfFull();
+  }
+  for (const doc of historySnap.docs) {
+    const ratingChanges = changesByMatch[doc.id];
+    batch.update(doc.ref, {
+      ratingsApplied: !!ratingChanges,
+      ratingChanges: ratingChanges ?? admin.firestore.FieldValue.delete(),
+    });
+    await commitIfFull();
+  }
+  if (ops > 0) await batch.commit();
+
+  return { matches, players: Object.keys(ratings).length };
+}
@@ -0,0 +1,147 @@
+import * as net from 'net';
+
+// Source RCON: https://developer.valvesoftware.com/wiki/Source_RCON_Protocol
+export const SERVERDATA_AUTH = 3;
+export const SERVERDATA_AUTH_RESPONSE = 2;
+export const SERVERDATA_EXECCOMMAND = 2;
+export const SERVERDATA_RESPONSE_VALUE = 0;
+
+const DEFAULT_TIMEOUT_MS = 5_000;
+// size máximo de un paquete según el protocolo (4096 de body + cabecera)
+const MAX_PACKET_SIZE = 4096 + 10;
+
+export type RconPacket = { id: number; type: number; body: string };
+
+export type RconOptions = {
+  host: string;
+  port: number;
+  password: string;
+  // tiempo total para conectar, autenticar y recibir la respuesta
+  timeoutMs?: number;
+};
+
+export class RconError extends Error {}
+
+export class RconAuthError extends RconError {
+  constructor() {
+    super('RCON authentication failed');
+  }
+}
+
+export function encodePacket(packet: RconPacket): Buffer {
+  const body = Buffer.from(packet.body, 'utf8');
+  // size = id + type + body + 2 bytes nulos (no cuenta el propio campo size)
+  const size = 4 + 4 + body.length + 2;
+  const buf = Buffer.alloc(4 + size);
+  buf.writeInt32LE(size, 0);
+  buf.writeInt32LE(packet.id, 4);
+  buf.writeInt32LE(packet.type, 8);
+  body.copy(buf, 12);
+  return buf;
+}
+
+/**
+ * Junta los chunks de TCP y devuelve los paquetes completos
+ * (un paquete puede venir partido y un chunk puede traer varios).
+ */
+export class RconPacketReader {
+  private buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): RconPacket[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const packets: RconPacket[] = [];
+
+    while (this.buffer.length >= 4) {
+      const size = this.buffer.readInt32LE(0);
+      if (size < 10 || size > MAX_PACKET_SIZE) {
+        throw new RconError(`Invalid RCON packet size ${size}`);
+      }
+      if (this.buffer.length < 4 + size) break;
+
+      packets.push({
+        id: this.buffer.readInt32LE(4),
+        type: this.buffer.readInt32LE(8),
+        body: this.buffer.toString('utf8', 12, 4 + size - 2),
+      });
+      this.buffer = this.buffer.subarray(4 + size);
+    }
+    return packets;
+  }
+}
+
+/**
+ * Abre una conexión, autentica, ejecuta command y devuelve la salida de consola.
+ * Las respuestas largas llegan en varios paquetes: después del comando se manda un
+ * RESPONSE_VALUE vacío y el server lo espeja cuando terminó de responder.
+ */
+export function rconCommand(options: RconOptions, command: string): Promise<string> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const AUTH_ID = 1;
+  const COMMAND_ID = 2;
+  const END_ID = 3;
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host: options.host, port: options.port });
+    const reader = new RconPacketReader();
+    let authenticated = false;
+    let output = '';
+    let settled = false;
+
+    const finish = (err: Error | null, result = '') => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      if (err) reject(err);
+      else resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      finish(new RconError(`RCON timeout after ${timeoutMs}ms (${options.host}:${options.port})`));
+    }, timeoutMs);
+
+    socket.on('connect', () => {
+      socket.write(encodePacket({ id: AUTH_ID, type: SERVERDATA_AUTH, body: options.password }));
+    });
+
+    socket.on('data', (chunk: Buffer) => {
+      let packets: RconPacket[];
+      try {
+        packets = reader.push(chunk);
+      } catch (e: any) {
+        finish(e);
+        return;
+      }
+
+      for (const packet of packets) {
+        if (!authenticated) {
+          // antes del AUTH_RESPONSE llega un RESPONSE_VALUE vacío que se ignora
+          if (packet.type !== SERVERDATA_AUTH_RESPONSE) continue;
+          if (packet.id !== AUTH_ID) {
+            finish(new RconAuthError());
+            return;
+          }
+          authenticated = true;
+          socket.write(
+            Buffer.concat([
+              encodePacket({ id: COMMAND_ID, type: SERVERDATA_EXECCOMMAND, body: command }),
+              encodePacket({ id: END_ID, type: SERVERDATA_RESPONSE_VALUE, body: '' }),
+            ])
+          );
+          continue;
+        }
+
+        if (packet.id === END_ID) {
+          finish(null, output);
+          return;
+        }
+        if (packet.id === COMMAND_ID && packet.type === SERVERDATA_RESPONSE_VALUE) {
+          output += packet.body;
+        }
+      }
+    });
+
+    socket.on('error', (err) => finish(new RconError(`RCON connection error: ${err.message}`)));
+    socket.on('close', () => finish(new RconError('RCON connection closed before response')));
+  });
+}
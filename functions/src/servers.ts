@@ -0,0 +1,217 @@
+import * as admin from 'firebase-admin';
+import { TransportKind, isTransportKind } from './transport.js';
+
+// servers/{serverId} = registro de servidores de juego (se cargan a mano / desde admin)
+export const SERVERS_COLLECTION = 'servers';
+
+export type ServerStatus = 'available' | 'in_use' | 'maintenance';
+
+export type GameServer = {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  spectatePort: number;
+  // pterodactyl (default) usa pteroServerId; rcon usa rconHost:rconPort
+  transport: TransportKind;
+  pteroServerId: string;
+  rconHost: string;
+  rconPort: number;
+  region: string;
+  capacity: number;
+  status: ServerStatus;
+  lobbyId: string | null;
+  matchId: string | null;
+};
+
+// Servidor reservado para el match (con los datos de transporte para mandarle comandos)
+export type AssignedServer = Pick<
+  GameServer,
+  | 'id'
+  | 'name'
+  | 'host'
+  | 'port'
+  | 'spectatePort'
+  | 'transport'
+  | 'pteroServerId'
+  | 'rconHost'
+  | 'rconPort'
+  | 'region'
+>;
+
+// Lo que queda guardado en live/current del lobby mientras dura el match (lo leen los clientes:
+// los datos de RCON / Pterodactyl se quedan en servers/{id})
+export type PublicServer = Pick<
+  GameServer,
+  'id' | 'name' | 'host' | 'port' | 'spectatePort' | 'region'
+>;
+
+export type ServerConnection = {
+  serverId: string;
+  name: string;
+  region: string;
+  host: string;
+  port: number;
+  spectatePort: number;
+  connectUrl: string;
+  spectateUrl: string;
+};
+
+export function serverRef(serverId: string) {
+  return admin.firestore().collection(SERVERS_COLLECTION).doc(serverId);
+}
+
+function validPort(value: unknown): number | null {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 && n < 65536 ? n : null;
+}
+
+/**
+ * Lee un doc de servers/ (null si le faltan datos para poder usarlo).
+ */
+export function readServer(snap: admin.firestore.DocumentSnapshot): GameServer | null {
+  const data = snap.data();
+  if (!data) return null;
+
+  const host = typeof data.host === 'string' ? data.host.trim() : '';
+  const port = validPort(data.port);
+  const transport: TransportKind = isTransportKind(data.transport) ? data.transport : 'pterodactyl';
+  const pteroServerId = typeof data.pteroServerId === 'string' ? data.pteroServerId : '';
+  if (!host || !port) return null;
+  if (transport === 'pterodactyl' && !pteroServerId) return null;
+
+  const status: ServerStatus =
+    data.status === 'in_use' || data.status === 'maintenance' ? data.status : 'available';
+
+  return {
+    id: snap.id,
+    name: typeof data.name === 'string' && data.name ? data.name : snap.id,
+    host,
+    port,
+    spectatePort: validPort(data.spectatePort) ?? port,
+    transport,
+    pteroServerId,
+    rconHost: typeof data.rconHost === 'string' && data.rconHost ? data.rconHost : host,
+    rconPort: validPort(data.rconPort) ?? port,
+    region: typeof data.region === 'string' ? data.region : '',
+    capacity: Number(data.capacity) || 0,
+    status,
+    lobbyId: typeof data.lobbyId === 'string' ? data.lobbyId : null,
+    matchId: data.matchId != null ? String(data.matchId) : null,
+  };
+}
+
+function toAssigned(server: GameServer): AssignedServer {
+  return {
+    id: server.id,
+    name: server.name,
+    host: server.host,
+    port: server.port,
+    spectatePort: server.spectatePort,
+    transport: server.transport,
+    pteroServerId: server.pteroServerId,
+    rconHost: server.rconHost,
+    rconPort: server.rconPort,
+    region: server.region,
+  };
+}
+
+export function publicServer(server: AssignedServer): PublicServer {
+  return {
+    id: server.id,
+    name: server.name,
+    host: server.host,
+    port: server.port,
+    spectatePort: server.spectatePort,
+    region: server.region,
+  };
+}
+
+/**
+ * Servidor con sus datos de transporte (para mandarle comandos); null si no existe.
+ */
+export async function readAssignedServer(serverId: string): Promise<AssignedServer | null> {
+  const server = readServer(await serverRef(serverId).get());
+  return server ? toAssigned(server) : null;
+}
+
+export function connectionFor(server: PublicServer): ServerConnection {
+  return {
+    serverId: server.id,
+    name: server.name,
+    region: server.region,
+    host: server.host,
+    port: server.port,
+    spectatePort: server.spectatePort,
+    connectUrl: `steam://connect/${server.host}:${server.port}`,
+    spectateUrl: `steam://connect/${server.host}:${server.spectatePort}`,
+  };
+}
+
+/**
+ * Reserva un servidor libre para el lobby (en tx, dos lobbies no pueden quedarse con el mismo).
+ * Si el lobby ya tenía uno asignado (reintento de start) devuelve ese.
+ * players = jugadores del match (10 en 5v5, 4 en wingman): se elige el más chico que alcance.
+ * Devuelve null si no hay servidores disponibles.
+ */
+export async function claimServer(
+  lobbyId: string,
+  matchId: string | null,
+  players: number
+): Promise<AssignedServer | null> {
+  const db = admin.firestore();
+  const col = db.collection(SERVERS_COLLECTION);
+
+  return db.runTransaction(async (tx) => {
+    const mine = await tx.get(col.where('lobbyId', '==', lobbyId).limit(1));
+    const held = mine.empty ? null : readServer(mine.docs[0]);
+    if (held && held.status === 'in_use') {
+      if (held.matchId !== matchId) {
+        tx.update(serverRef(held.id), {
+          matchId,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+      return toAssigned(held);
+    }
+
+    const free = await tx.get(col.where('status', '==', 'available'));
+    const candidates = free.docs
+      .map(readServer)
+      .filter((s): s is GameServer => !!s && s.capacity >= players)
+      .sort((a, b) => a.capacity - b.capacity || a.id.localeCompare(b.id));
+
+    const server = candidates[0];
+    if (!server) return null;
+
+    tx.update(serverRef(server.id), {
+      status: 'in_use',
+      lobbyId,
+      matchId,
+      claimedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return toAssigned(server);
+  });
+}
+
+/**
+ * Libera el servidor del lobby (dentro de la tx del reset; serverSnap se leyó antes de escribir).
+ * Si mientras tanto lo pasaron a mantenimiento queda en mantenimiento.
+ */
+export function releaseServer(
+  tx: admin.firestore.Transaction,
+  serverSnap: admin.firestore.DocumentSnapshot,
+  lobbyId: string
+): void {
+  const data = serverSnap.data();
+  if (!data || data.lobbyId !== lobbyId) return;
+
+  tx.update(serverSnap.ref, {
+    status: data.status === 'maintenance' ? 'maintenance' : 'available',
+    lobbyId: null,
+    matchId: null,
+    releasedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
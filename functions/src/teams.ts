@@ -0,0 +1,83 @@
+export type BalancedTeams = {
+  team1: string[];
+  team2: string[];
+  // promedio de rating por equipo y diferencia absoluta (menor = más parejo)
+  balance: { team1Avg: number; team2Avg: number; diff: number };
+};
+
+/**
+ * Premades a partir de pedidos mutuos (A pidió jugar con B y B con A).
+ */
+export function premadeGroups(requests: Record<string, string>, players: string[]): string[][] {
+  const groups: string[][] = [];
+  const seen = new Set<string>();
+  for (const a of players) {
+    const b = requests[a];
+    if (!b || seen.has(a) || seen.has(b)) continue;
+    if (requests[b] !== a || !players.includes(b)) continue;
+    groups.push([a, b]);
+    seen.add(a);
+    seen.add(b);
+  }
+  return groups;
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+  const [head, ...rest] = items;
+  return [
+    ...combinations(rest, size - 1).map((combo) => [head, ...combo]),
+    ...combinations(rest, size),
+  ];
+}
+
+function sum(ids: string[], ratings: Record<string, number>): number {
+  return ids.reduce((acc, id) => acc + (ratings[id] ?? 0), 0);
+}
+
+/**
+ * Parte players en dos equipos de teamSize minimizando la diferencia de rating.
+ * Los premades quedan siempre en el mismo equipo. Devuelve null si no hay partición válida.
+ * Cada equipo vuelve ordenado por rating (el primero queda como líder).
+ */
+export function balanceTeams(
+  players: string[],
+  ratings: Record<string, number>,
+  teamSize: number,
+  premades: string[][] = []
+): BalancedTeams | null {
+  if (players.length !== teamSize * 2 || players.length === 0) return null;
+
+  const total = sum(players, ratings);
+  const [anchor, ...others] = players;
+  let best: { team1: string[]; diff: number } | null = null;
+
+  // Fijar al primer jugador en team1 evita evaluar cada partición dos veces
+  for (const combo of combinations(others, teamSize - 1)) {
+    const team1 = [anchor, ...combo];
+    const inTeam1 = new Set(team1);
+    const splitsPremade = premades.some(
+      (group) => group.some((id) => inTeam1.has(id)) && group.some((id) => !inTeam1.has(id))
+    );
+    if (splitsPremade) continue;
+
+    const diff = Math.abs(total - 2 * sum(team1, ratings));
+    if (!best || diff < best.diff) best = { team1, diff };
+  }
+
+  if (!best) return null;
+  const chosen = best;
+
+  const byRating = (a: string, b: string) => (ratings[b] ?? 0) - (ratings[a] ?? 0);
+  const team1 = [...chosen.team1].sort(byRating);
+  const team2 = players.filter((id) => !chosen.team1.includes(id)).sort(byRating);
+  const team1Avg = Math.round(sum(team1, ratings) / teamSize);
+  const team2Avg = Math.round(sum(team2, ratings) / teamSize);
+
+  return {
+    team1,
+    team2,
+    balance: { team1Avg, team2Avg, diff: Math.round(chosen.diff / teamSize) },
+  };
+}
@@ -0,0 +1,89 @@
+import { rconCommand } from './rcon.js';
+
+// Cómo se mandan comandos de consola a un servidor de juego (servers/{id}.transport)
+export type TransportKind = 'pterodactyl' | 'rcon';
+
+export const TRANSPORT_KINDS: TransportKind[] = ['pterodactyl', 'rcon'];
+
+export type CommandTransport = {
+  kind: TransportKind;
+  // devuelve la salida de consola ('' si el transporte no la expone, ej: Pterodactyl)
+  send(command: string): Promise<string>;
+};
+
+export type PterodactylConfig = {
+  panelOrigin: string; // ej https://pterodactyl.histeriaservers.com.ar
+  apiKey: string; // ptlc_...
+  serverId: string; // ej ba39664e
+};
+
+export type RconConfig = {
+  host: string;
+  port: number;
+  password: string;
+  timeoutMs?: number;
+};
+
+export function isTransportKind(value: unknown): value is TransportKind {
+  return typeof value === 'string' && TRANSPORT_KINDS.includes(value as TransportKind);
+}
+
+export class PterodactylCommandError extends Error {
+  status: number;
+  body: string;
+
+  constructor(status: number, body: string) {
+    super(`Pterodactyl command failed: HTTP ${status} ${body}`.trim());
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// ====== Pterodactyl (Client API) ======
+export function pterodactylTransport(config: PterodactylConfig): CommandTransport {
+  return {
+    kind: 'pterodactyl',
+    async send(command: string): Promise<string> {
+      const { panelOrigin, apiKey, serverId } = config;
+      if (!panelOrigin || !serverId || !apiKey) {
+        throw new Error(
+          'Missing Pterodactyl config (PTERO_PANEL_ORIGIN / pteroServerId / PTERO_CLIENT_KEY)'
+        );
+      }
+
+      const url = `${panelOrigin.replace(/\/+$/, '')}/api/client/servers/${encodeURIComponent(
+        serverId
+      )}/command`;
+
+      const r = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        body: JSON.stringify({ command }),
+      });
+
+      if (!r.ok) {
+        const t = await r.text().catch(() => '');
+        throw new PterodactylCommandError(r.status, t);
+      }
+      // El panel solo confirma (204): la salida va por websocket
+      return '';
+    },
+  };
+}
+
+// ====== Source RCON (TCP directo al servidor) ======
+export function rconTransport(config: RconConfig): CommandTransport {
+  return {
+    kind: 'rcon',
+    send(command: string): Promise<string> {
+      if (!config.host || !config.port || !config.password) {
+        return Promise.reject(new Error('Missing RCON config (host / rconPort / RCON_PASSWORD)'));
+      }
+      return rconCommand(config, command);
+    },
+  };
+}
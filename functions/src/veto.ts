@@ -0,0 +1,130 @@
+import type { TeamKey } from './lobby.js';
+
+export type SeriesFormat = 'bo1' | 'bo3' | 'bo5';
+
+export const SERIES_FORMATS: SeriesFormat[] = ['bo1', 'bo3', 'bo5'];
+
+export type VetoAction = 'ban' | 'pick';
+
+export type VetoStep = { team: TeamKey; action: VetoAction };
+
+// Lo que ya pasó en el veto (se guarda en el draft y en el historial)
+export type VetoLogEntry = { team: TeamKey | null; action: VetoAction | 'decider'; map: string };
+
+const A = 'team1';
+const B = 'team2';
+
+const STANDARD_POOL_SIZE = 7;
+
+/**
+ * Secuencias para un pool de 7 mapas. El mapa que queda al final es el decider.
+ * bo1 mantiene el orden de baneos de siempre.
+ */
+const VETO_SEQUENCES: Record<SeriesFormat, VetoStep[]> = {
+  bo1: [
+    { team: A, action: 'ban' },
+    { team: A, action: 'ban' },
+    { team: B, action: 'ban' },
+    { team: B, action: 'ban' },
+    { team: A, action: 'ban' },
+    { team: B, action: 'ban' },
+  ],
+  bo3: [
+    { team: A, action: 'ban' },
+    { team: B, action: 'ban' },
+    { team: A, action: 'pick' },
+    { team: B, action: 'pick' },
+    { team: A, action: 'ban' },
+    { team: B, action: 'ban' },
+  ],
+  bo5: [
+    { team: A, action: 'ban' },
+    { team: B, action: 'ban' },
+    { team: A, action: 'pick' },
+    { team: B, action: 'pick' },
+    { team: A, action: 'pick' },
+    { team: B, action: 'pick' },
+  ],
+};
+
+export function isSeriesFormat(value: unknown): value is SeriesFormat {
+  return typeof value === 'string' && SERIES_FORMATS.includes(value as SeriesFormat);
+}
+
+export function numMapsFor(format: SeriesFormat): number {
+  return format === 'bo5' ? 5 : format === 'bo3' ? 3 : 1;
+}
+
+// El pool tiene que alcanzar para todos los mapas de la serie y dejar al menos un paso de veto
+export function supportsSeries(format: SeriesFormat, poolSize: number): boolean {
+  return numMapsFor(format) <= poolSize && poolSize >= 2;
+}
+
+/**
+ * Pasos del veto para el formato. Con el pool de 7 usa las secuencias fijas;
+ * con otros pools (ej: wingman) alterna equipos: 2 bans, los picks y el resto de bans.
+ */
+export function vetoStepsFor(format: SeriesFormat, poolSize = STANDARD_POOL_SIZE): VetoStep[] {
+  if (poolSize === STANDARD_POOL_SIZE) {
+    return VETO_SEQUENCES[format].map((step) => ({ ...step }));
+  }
+
+  const picks = numMapsFor(format) - 1;
+  const bans = Math.max(poolSize - picks - 1, 0);
+  const leadingBans = Math.min(bans, 2);
+  const actions: VetoAction[] = [
+    ...Array<VetoAction>(leadingBans).fill('ban'),
+    ...Array<VetoAction>(picks).fill('pick'),
+    ...Array<VetoAction>(bans - leadingBans).fill('ban'),
+  ];
+  return actions.map((action, idx) => ({ team: idx % 2 === 0 ? A : B, action }));
+}
+
+/**
+ * maplist de MatchZy: mapas pickeados en orden y el decider al final.
+ */
+export function mapListFromVeto(log: VetoLogEntry[]): string[] {
+  return log.filter((e) => e.action !== 'ban').map((e) => e.map);
+}
+
+// ====== Elección de lados (después del veto) ======
+
+export type SideChoice = 'ct' | 't' | 'knife';
+
+// Valores de map_sides en la config de MatchZy
+export type MapSide = 'team1_ct' | 'team1_t' | 'team2_ct' | 'team2_t' | 'knife';
+
+export type SideSlot = { map: string; chooser: TeamKey; side: MapSide | null };
+
+const MAP_SIDES: MapSide[] = ['team1_ct', 'team1_t', 'team2_ct', 'team2_t', 'knife'];
+
+export function isMapSide(value: unknown): value is MapSide {
+  return typeof value === 'string' && MAP_SIDES.includes(value as MapSide);
+}
+
+export function isSideChoice(value: unknown): value is SideChoice {
+  return value === 'ct' || value === 't' || value === 'knife';
+}
+
+function otherTeam(team: TeamKey): TeamKey {
+  return team === 'team1' ? 'team2' : 'team1';
+}
+
+/**
+ * Un slot por mapa del maplist: elige lado el equipo que no pickeó el mapa.
+ * En el decider elige el equipo que no hizo el último veto.
+ */
+export function sideSlotsFromVeto(log: VetoLogEntry[]): SideSlot[] {
+  const lastVetoTeam = [...log].reverse().find((e) => e.action !== 'decider')?.team ?? 'team2';
+  return log
+    .filter((e) => e.action !== 'ban')
+    .map((e) => ({
+      map: e.map,
+      chooser: otherTeam(e.action === 'pick' && e.team ? e.team : lastVetoTeam),
+      side: null,
+    }));
+}
+
+export function toMapSide(chooser: TeamKey, choice: SideChoice): MapSide {
+  return choice === 'knife' ? 'knife' : `${chooser}_${choice}`;
+}
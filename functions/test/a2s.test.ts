@@ -0,0 +1,111 @@
+import { strict as assert } from 'assert';
+import * as dgram from 'dgram';
+import { after, before, describe, it } from 'node:test';
+import { getLiveServerStatus, queryInfo, queryPlayers } from '../src/a2s.js';
+
+const CHALLENGE = Buffer.from([1, 2, 3, 4]);
+
+function packet(type: number, body: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([0xff, 0xff, 0xff, 0xff, type]), body]);
+}
+
+function str(value: string): Buffer {
+  return Buffer.from(`${value}\0`, 'utf8');
+}
+
+function infoBody(): Buffer {
+  return Buffer.concat([
+    Buffer.from([17]),
+    str('ClouseT #1'),
+    str('de_mirage'),
+    str('csgo'),
+    str('Counter-Strike 2'),
+    Buffer.from([0xda, 0x02]),
+    Buffer.from([2, 12, 0, 0x64, 0x6c, 0, 1]),
+    str('1.0.0'),
+  ]);
+}
+
+function playersBody(names: string[]): Buffer {
+  const parts: Buffer[] = [Buffer.from([names.length])];
+  names.forEach((name, idx) => {
+    const stats = Buffer.alloc(8);
+    stats.writeInt32LE(10 + idx, 0);
+    stats.writeFloatLE(120.5, 4);
+    parts.push(Buffer.from([idx]), str(name), stats);
+  });
+  return Buffer.concat(parts);
+}
+
+// Igual que CS2: ambas queries piden challenge antes de responder
+function startFakeA2sServer(): Promise<{ port: number; close(): Promise<void> }> {
+  const server = dgram.createSocket('udp4');
+  server.on('message', (msg, rinfo) => {
+    const type = msg.readUInt8(4);
+    const tail = msg.subarray(msg.length - 4);
+    const challenged = tail.equals(CHALLENGE);
+    const reply = (buf: Buffer) => server.send(buf, rinfo.port, rinfo.address);
+
+    if (!challenged) {
+      reply(packet(0x41, CHALLENGE));
+    } else if (type === 0x54) {
+      reply(packet(0x49, infoBody()));
+    } else if (type === 0x55) {
+      reply(packet(0x44, playersBody(['alpha', 'bravo'])));
+    }
+  });
+
+  return new Promise((resolve) => {
+    server.bind(0, '127.0.0.1', () =>
+      resolve({
+        port: server.address().port,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      })
+    );
+  });
+}
+
+describe('A2S queries', () => {
+  let fake: { port: number; close(): Promise<void> };
+
+  before(async () => {
+    fake = await startFakeA2sServer();
+  });
+
+  after(() => fake.close());
+
+  it('A2S_INFO responde el challenge y parsea mapa y jugadores', async () => {
+    const { info, latencyMs } = await queryInfo('127.0.0.1', fake.port);
+    assert.equal(info.map, 'de_mirage');
+    assert.equal(info.players, 2);
+    assert.equal(info.maxPlayers, 12);
+    assert.ok(latencyMs >= 0);
+  });
+
+  it('A2S_PLAYER devuelve nombres y score', async () => {
+    const players = await queryPlayers('127.0.0.1', fake.port);
+    assert.deepEqual(
+      players.map((p) => [p.name, p.score]),
+      [
+        ['alpha', 10],
+        ['bravo', 11],
+      ]
+    );
+  });
+
+  it('getLiveServerStatus combina ambas queries', async () => {
+    const status = await getLiveServerStatus('127.0.0.1', fake.port);
+    assert.equal(status.online, true);
+    assert.equal(status.map, 'de_mirage');
+    assert.deepEqual(status.playerNames, ['alpha', 'bravo']);
+  });
+
+  it('getLiveServerStatus marca offline si no hay respuesta', async () => {
+    const closed = await startFakeA2sServer();
+    const port = closed.port;
+    await closed.close();
+    const status = await getLiveServerStatus('127.0.0.1', port, 200);
+    assert.equal(status.online, false);
+    assert.equal(status.latencyMs, null);
+  });
+});
@@ -0,0 +1,68 @@
+import { strict as assert } from 'assert';
+import { createHash } from 'crypto';
+import { describe, it } from 'node:test';
+import { CaptainCandidate, rankCaptains, seededKey } from '../src/captains.js';
+
+const SEED = 'c0ffee';
+
+function candidate(steamId: string, extra: Partial<CaptainCandidate> = {}): CaptainCandidate {
+  return { steamId, rating: 1500, volunteer: false, lastCaptainedAt: 0, ...extra };
+}
+
+// Orden esperado cuando todo empata: por clave del seed, ascendente
+function bySeed(ids: string[], seed = SEED): string[] {
+  return [...ids].sort((a, b) => (seededKey(seed, a) < seededKey(seed, b) ? -1 : 1));
+}
+
+describe('seededKey', () => {
+  it('es sha256 en hex de seed:steamId', () => {
+    const expected = createHash('sha256').update(`${SEED}:765`).digest('hex');
+    assert.equal(seededKey(SEED, '765'), expected);
+    assert.match(seededKey(SEED, '765'), /^[0-9a-f]{64}$/);
+  });
+
+  it('cambia con el seed', () => {
+    assert.notEqual(seededKey('a', '765'), seededKey('b', '765'));
+  });
+});
+
+describe('rankCaptains', () => {
+  const ids = ['1', '2', '3', '4', '5', '6'];
+
+  it('random: reproducible con el mismo seed', () => {
+    const candidates = ids.map((id) => candidate(id));
+    assert.deepEqual(rankCaptains(candidates, 'random', SEED), bySeed(ids));
+    assert.deepEqual(
+      rankCaptains([...candidates].reverse(), 'random', SEED),
+      rankCaptains(candidates, 'random', SEED)
+    );
+  });
+
+  it('rating: de mayor a menor y los empates por seed', () => {
+    const candidates = [
+      candidate('1', { rating: 1400 }),
+      candidate('2', { rating: 1800 }),
+      candidate('3', { rating: 1600 }),
+      candidate('4', { rating: 1600 }),
+    ];
+    const order = rankCaptains(candidates, 'rating', SEED);
+    assert.deepEqual(order, ['2', ...bySeed(['3', '4']), '1']);
+  });
+
+  it('volunteers: primero los voluntarios', () => {
+    const candidates = ids.map((id) => candidate(id, { volunteer: id === '2' || id === '5' }));
+    const order = rankCaptains(candidates, 'volunteers', SEED);
+    assert.deepEqual(order, [...bySeed(['2', '5']), ...bySeed(['1', '3', '4', '6'])]);
+  });
+
+  it('least_recent: primero los que nunca fueron líderes o hace más tiempo', () => {
+    const candidates = [
+      candidate('1', { lastCaptainedAt: 3000 }),
+      candidate('2', { lastCaptainedAt: 1000 }),
+      candidate('3'),
+      candidate('4'),
+    ];
+    const order = rankCaptains(candidates, 'least_recent', SEED);
+    assert.deepEqual(order, [...bySeed(['3', '4']), '2', '1']);
+  });
+});
@@ -0,0 +1,164 @@
+import { strict as assert } from 'assert';
+import * as admin from 'firebase-admin';
+import { before, describe, it } from 'node:test';
+import { Readable } from 'stream';
+import {
+  DemoInfoReader,
+  MAX_DEMO_BYTES,
+  parseDemoHeaders,
+  parseDemoInfo,
+  storeMatchDemo,
+} from '../src/demos.js';
+import { LobbyError } from '../src/lobby.js';
+
+// storeMatchDemo corre contra los emuladores: npm run test:emulators (sin ellos se saltea)
+const EMULATORS =
+  !!process.env.FIRESTORE_EMULATOR_HOST && !!process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+const SKIP_EMULATORS = !EMULATORS && 'emuladores de Firestore/Storage no seteados';
+
+// Mensaje de demo sin comprimir: cmd, tick y size como varints (todos < 128 acá)
+function demoMessage(cmd: number, payload: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([cmd, 0, payload.length]), payload]);
+}
+
+// Demo mínima de CS2: header con map_name (campo 5) y CDemoFileInfo con playback_time (campo 1)
+function fakeDemo(map: string, playbackTime: number): Buffer {
+  const mapName = Buffer.from(map);
+  const header = demoMessage(1, Buffer.concat([Buffer.from([0x2a, mapName.length]), mapName]));
+  const body = Buffer.alloc(64, 0xab);
+
+  const time = Buffer.alloc(5);
+  time[0] = 0x0d;
+  time.writeFloatLE(playbackTime, 1);
+  const fileInfo = demoMessage(2, time);
+
+  const prefix = Buffer.alloc(16);
+  prefix.write('PBDEMS2\0', 0, 'latin1');
+  prefix.writeInt32LE(16 + header.length + body.length, 8);
+  return Buffer.concat([prefix, header, body, fileInfo]);
+}
+
+describe('parseDemoInfo', () => {
+  it('lee el mapa del header y la duración del file info', () => {
+    assert.deepEqual(parseDemoInfo(fakeDemo('de_mirage', 2345.6)), {
+      map: 'de_mirage',
+      durationSec: 2346,
+    });
+  });
+
+  it('con un archivo que no es demo de CS2 no inventa nada', () => {
+    assert.deepEqual(parseDemoInfo(Buffer.from('HL2DEMO\0 algo')), {
+      map: null,
+      durationSec: null,
+    });
+  });
+
+  it('lee lo mismo si la demo llega en chunks', () => {
+    const demo = fakeDemo('de_nuke', 100);
+    const reader = new DemoInfoReader();
+    for (let i = 0; i < demo.length; i += 7) reader.push(demo.subarray(i, i + 7));
+    assert.equal(reader.size, demo.length);
+    assert.deepEqual(reader.result(), { map: 'de_nuke', durationSec: 100 });
+  });
+
+  it('rechaza una demo con el offset del file info fuera del archivo', () => {
+    const truncated = fakeDemo('de_nuke', 100).subarray(0, 30);
+    assert.throws(() => parseDemoInfo(truncated), LobbyError);
+
+    const negative = fakeDemo('de_nuke', 100);
+    negative.writeInt32LE(-5, 8);
+    assert.throws(() => parseDemoInfo(negative), LobbyError);
+  });
+});
+
+describe('parseDemoHeaders', () => {
+  const headers =
+    (values: Record<string, string>) =>
+    (name: string): string | undefined =>
+      values[name];
+
+  it('acepta los headers de MatchZy y los de Get5', () => {
+    assert.deepEqual(
+      parseDemoHeaders(
+        headers({
+          'MatchZy-MatchId': '1736500000000',
+          'MatchZy-MapNumber': '1',
+          'MatchZy-FileName': '2025-01-10_1736500000000_de_nuke.dem',
+        })
+      ),
+      {
+        matchId: '1736500000000',
+        mapNumber: 1,
+        fileName: '2025-01-10_1736500000000_de_nuke.dem',
+      }
+    );
+    assert.equal(
+      parseDemoHeaders(headers({ 'Get5-MatchId': '42', 'Get5-MapNumber': '0' })).fileName,
+      null
+    );
+  });
+
+  it('rechaza matchId o mapa inválidos', () => {
+    assert.throws(
+      () => parseDemoHeaders(headers({ 'MatchZy-MatchId': '../x', 'MatchZy-MapNumber': '0' })),
+      LobbyError
+    );
+    assert.throws(
+      () => parseDemoHeaders(headers({ 'MatchZy-MatchId': '42', 'MatchZy-MapNumber': '7' })),
+      LobbyError
+    );
+  });
+});
+
+describe('storeMatchDemo', { skip: SKIP_EMULATORS }, () => {
+  const LOBBY = 'lobby-demo';
+  const MATCH_ID = '1736500000000';
+
+  before(async () => {
+    admin.initializeApp({ projectId: 'demo-clouset', storageBucket: 'demo-clouset.appspot.com' });
+    await admin
+      .firestore()
+      .doc(`lobbies/${LOBBY}/live/current`)
+      .set({ matchId: MATCH_ID, maplist: ['de_inferno', 'de_nuke', 'de_mirage'] });
+  });
+
+  it('sube la demo y la registra en matchHistory', async () => {
+    const demo = fakeDemo('de_nuke', 1800);
+    const upload = { matchId: MATCH_ID, mapNumber: 1, fileName: 'nuke.dem' };
+    const result = await storeMatchDemo(LOBBY, upload, Readable.from([demo]));
+    assert.deepEqual(result, { path: `demos/${MATCH_ID}/1.dem`, size: demo.length });
+
+    const [stored] = await admin.storage().bucket().file(result.path).download();
+    assert.ok(stored.equals(demo));
+
+    const entry = (await admin.firestore().doc(`matchHistory/${MATCH_ID}`).get()).data();
+    assert.equal(entry?.demos?.['1']?.map, 'de_nuke');
+    assert.equal(entry?.demos?.['1']?.durationSec, 1800);
+    assert.equal(entry?.demos?.['1']?.size, demo.length);
+  });
+
+  it('rechaza demos más grandes que el tope sin dejar el archivo', async () => {
+    const chunk = Buffer.alloc(1024 * 1024);
+    const chunks = (function* () {
+      for (let i = 0; i <= MAX_DEMO_BYTES / chunk.length; i++) yield chunk;
+    })();
+    const upload = { matchId: MATCH_ID, mapNumber: 2, fileName: null };
+    await assert.rejects(
+      storeMatchDemo(LOBBY, upload, Readable.from(chunks)),
+      (e: any) => e instanceof LobbyError && e.status === 413
+    );
+    const [exists] = await admin.storage().bucket().file(`demos/${MATCH_ID}/2.dem`).exists();
+    assert.equal(exists, false);
+  });
+
+  it('rechaza demos de otro match', async () => {
+    await assert.rejects(
+      storeMatchDemo(
+        LOBBY,
+        { matchId: '99', mapNumber: 0, fileName: null },
+        Readable.from([fakeDemo('x', 1)])
+      ),
+      (e: any) => e instanceof LobbyError && e.status === 409
+    );
+  });
+});
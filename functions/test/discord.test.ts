@@ -0,0 +1,85 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import {
+  DiscordWebhook,
+  draftNotifications,
+  parseDiscordWebhooks,
+  wantsNotification,
+} from '../src/discord.js';
+import { LobbyError } from '../src/lobby.js';
+
+const URL = 'https://discord.com/api/webhooks/123/abc-DEF_1';
+const players = (n: number) => Array.from({ length: n }, (_, i) => `7656119800000000${i}`);
+const nameOf = (id: string) => `p${id.slice(-1)}`;
+
+const hook = (events: DiscordWebhook['events'], queueMilestones: number[] = []) => ({
+  name: 'test',
+  url: URL,
+  events,
+  queueMilestones,
+});
+
+describe('draftNotifications', () => {
+  it('la cola que crece cruza los milestones de cada webhook', () => {
+    const before = { estado: 'esperando_jugadores', playersPerTeam: 5, queue: players(7) };
+    const after = { ...before, queue: players(8) };
+    const [n] = draftNotifications('default', before, after, nameOf);
+
+    assert.equal(n.event, 'queue_milestone');
+    assert.equal(wantsNotification(hook(['queue_milestone'], [8]), n), true);
+    assert.equal(wantsNotification(hook(['queue_milestone'], [5]), n), false);
+    assert.equal(wantsNotification(hook(['queue_full'], [8]), n), false);
+  });
+
+  it('cola llena y líderes elegidos', () => {
+    const waiting = { estado: 'esperando_jugadores', playersPerTeam: 2, queue: players(3) };
+    const full = { ...waiting, estado: 'confirmando_jugadores', queue: players(4) };
+    assert.deepEqual(
+      draftNotifications('default', waiting, full, nameOf).map((n) => n.event),
+      ['queue_full']
+    );
+
+    const leaders = { ...full, estado: 'seleccionando_lideres' };
+    const teams = {
+      ...leaders,
+      estado: 'armando_equipos',
+      team1: { name: 'Team A', players: [players(4)[2]] },
+      team2: { name: 'Team B', players: [players(4)[3]] },
+    };
+    const [n] = draftNotifications('default', leaders, teams, nameOf);
+    assert.equal(n.event, 'leaders_chosen');
+    assert.deepEqual(n.embed.fields?.map((f) => f.value), ['p2', 'p3']);
+  });
+
+  it('en modo balanced avisa los equipos armados', () => {
+    const leaders = { estado: 'seleccionando_lideres', playersPerTeam: 2, queue: players(4) };
+    const teams = {
+      ...leaders,
+      estado: 'seleccionando_mapa',
+      queue: [],
+      team1: { name: 'Team A', players: [players(4)[0], players(4)[3]] },
+      team2: { name: 'Team B', players: [players(4)[1], players(4)[2]] },
+    };
+    const [n] = draftNotifications('default', leaders, teams, nameOf);
+    assert.equal(n.event, 'leaders_chosen');
+    assert.deepEqual(n.embed.fields?.map((f) => f.value), ['p0\np3', 'p1\np2']);
+  });
+
+  it('sin cambios no avisa', () => {
+    const doc = { estado: 'armando_equipos', playersPerTeam: 5, queue: players(10) };
+    assert.deepEqual(draftNotifications('default', doc, { ...doc }, nameOf), []);
+  });
+});
+
+describe('parseDiscordWebhooks', () => {
+  it('valida URL y eventos', () => {
+    const [parsed] = parseDiscordWebhooks([
+      { url: URL, events: ['queue_full', 'queue_full'], queueMilestones: [8, '6', 0] },
+    ]);
+    assert.deepEqual(parsed.events, ['queue_full']);
+    assert.deepEqual(parsed.queueMilestones, [6, 8]);
+
+    assert.throws(() => parseDiscordWebhooks([{ url: 'https://example.com/hook' }]), LobbyError);
+    assert.throws(() => parseDiscordWebhooks([{ url: URL, events: ['nope'] }]), LobbyError);
+  });
+});
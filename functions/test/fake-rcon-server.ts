@@ -0,0 +1,86 @@
+import * as net from 'net';
+import {
+  RconPacketReader,
+  SERVERDATA_AUTH,
+  SERVERDATA_AUTH_RESPONSE,
+  SERVERDATA_EXECCOMMAND,
+  SERVERDATA_RESPONSE_VALUE,
+  encodePacket,
+} from '../src/rcon.js';
+
+export type FakeRconOptions = {
+  password: string;
+  // respuesta por comando (default: eco del comando)
+  respond?: (command: string) => string;
+  // tamaño de body por paquete, para forzar respuestas partidas
+  chunkSize?: number;
+  // no responder nunca a los comandos (para probar timeouts)
+  silent?: boolean;
+};
+
+export type FakeRconServer = {
+  port: number;
+  commands: string[];
+  close(): Promise<void>;
+};
+
+/**
+ * Servidor RCON mínimo en 127.0.0.1 que se comporta como srcds:
+ * auth con RESPONSE_VALUE vacío + AUTH_RESPONSE, respuestas largas en varios paquetes
+ * y espejo del RESPONSE_VALUE vacío que usa el cliente como fin de respuesta.
+ */
+export async function startFakeRconServer(options: FakeRconOptions): Promise<FakeRconServer> {
+  const commands: string[] = [];
+  const chunkSize = options.chunkSize ?? 4096;
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    const reader = new RconPacketReader();
+    let authed = false;
+
+    socket.on('data', (chunk) => {
+      for (const packet of reader.push(chunk)) {
+        if (packet.type === SERVERDATA_AUTH) {
+          authed = packet.body === options.password;
+          socket.write(encodePacket({ id: packet.id, type: SERVERDATA_RESPONSE_VALUE, body: '' }));
+          socket.write(
+            encodePacket({
+              id: authed ? packet.id : -1,
+              type: SERVERDATA_AUTH_RESPONSE,
+              body: '',
+            })
+          );
+          continue;
+        }
+        if (!authed || options.silent) continue;
+
+        if (packet.type === SERVERDATA_EXECCOMMAND) {
+          commands.push(packet.body);
+          const output = options.respond ? options.respond(packet.body) : packet.body;
+          for (let i = 0; i < output.length || i === 0; i += chunkSize) {
+            const body = output.slice(i, i + chunkSize);
+            socket.write(encodePacket({ id: packet.id, type: SERVERDATA_RESPONSE_VALUE, body }));
+          }
+        } else if (packet.type === SERVERDATA_RESPONSE_VALUE) {
+          socket.write(encodePacket({ id: packet.id, type: SERVERDATA_RESPONSE_VALUE, body: '' }));
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as net.AddressInfo).port;
+
+  return {
+    port,
+    commands,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      }),
+  };
+}
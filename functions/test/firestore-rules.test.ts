@@ -0,0 +1,218 @@
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { after, afterEach, before, describe, it } from 'node:test';
+import {
+  Firestore,
+  arrayUnion,
+  deleteDoc,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+import { MatchEstado } from '../src/lobby.js';
+
+// Corre contra el emulador de Firestore: npm run test:rules (sin emulador se saltea)
+const EMULATOR = process.env.FIRESTORE_EMULATOR_HOST;
+const RULES_PATH = path.resolve(__dirname, '../../../firestore.rules');
+
+const LOBBY = 'lobby-1';
+const PLAYERS = Array.from({ length: 10 }, (_, i) => `7656119800000000${i}`);
+const [LEADER_A, LEADER_B] = PLAYERS;
+const OUTSIDER = '76561198999999999';
+
+const ESTADOS: MatchEstado[] = [
+  'esperando_jugadores',
+  'confirmando_jugadores',
+  'seleccionando_lideres',
+  'armando_equipos',
+  'seleccionando_mapa',
+  'eligiendo_lados',
+  'en_curso',
+];
+
+// Draft de ejemplo en cada estado (lo mismo que escribe lobby.ts)
+function draftIn(estado: MatchEstado): Record<string, unknown> {
+  const waiting = estado === 'esperando_jugadores' || estado === 'confirmando_jugadores';
+  const withTeams = !waiting && estado !== 'seleccionando_lideres';
+  return {
+    estado,
+    mode: '5v5',
+    playersPerTeam: 5,
+    queue: waiting ? PLAYERS.slice(0, 9) : PLAYERS,
+    team1: { name: 'Team A', players: withTeams ? [LEADER_A] : [], leader: LEADER_A },
+    team2: { name: 'Team B', players: withTeams ? [LEADER_B] : [], leader: LEADER_B },
+    unassigned: withTeams ? PLAYERS.slice(2) : [],
+    bannedMaps: [],
+    mapTurn: 'team1',
+    mapBanCount: 0,
+    readyAccepted: [],
+    map: estado === 'eligiendo_lados' || estado === 'en_curso' ? 'de_mirage' : null,
+  };
+}
+
+// Escrituras que el cliente intentaría en cada estado: las "legales" según la máquina de
+// estados (que igual van por /api) y las que nunca deberían pasar
+function attemptsFor(estado: MatchEstado, me: string): Record<string, Record<string, unknown>> {
+  return {
+    'sumarse a la cola': { queue: arrayUnion(me) },
+    'sumar a otro a la cola': { queue: arrayUnion(OUTSIDER) },
+    'aceptar el ready check': { readyAccepted: arrayUnion(me) },
+    'banear un mapa siendo líder de turno': {
+      bannedMaps: arrayUnion('de_nuke'),
+      mapTurn: 'team2',
+    },
+    'pickear un jugador': { 'team1.players': arrayUnion(PLAYERS[2]) },
+    'elegir mapa': { map: 'de_inferno' },
+    'saltar de estado': { estado: estado === 'en_curso' ? 'esperando_jugadores' : 'en_curso' },
+    'vaciar la cola': { queue: [] },
+  };
+}
+
+describe('firestore.rules', { skip: !EMULATOR && 'FIRESTORE_EMULATOR_HOST no seteado' }, () => {
+  let env: RulesTestEnvironment;
+
+  const as = (steamId: string): Firestore =>
+    env.authenticatedContext(`steam:${steamId}`, { steamId }).firestore() as unknown as Firestore;
+  const anonymous = (): Firestore =>
+    env.authenticatedContext('anon-uid', { firebase: { sign_in_provider: 'anonymous' } })
+      .firestore() as unknown as Firestore;
+  const signedOut = (): Firestore =>
+    env.unauthenticatedContext().firestore() as unknown as Firestore;
+
+  async function seed(pathSegments: string[], data: Record<string, unknown>): Promise<void> {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore() as unknown as Firestore;
+      const [col, ...rest] = pathSegments;
+      await setDoc(doc(db, col, ...rest), data);
+    });
+  }
+
+  before(async () => {
+    env = await initializeTestEnvironment({
+      projectId: 'demo-clouset',
+      firestore: { rules: readFileSync(RULES_PATH, 'utf8') },
+    });
+  });
+
+  afterEach(() => env.clearFirestore());
+
+  after(() => env.cleanup());
+
+  for (const estado of ESTADOS) {
+    describe(`lobby en ${estado}`, () => {
+      it('se puede leer logueado (también anónimo) y no deslogueado', async () => {
+        await seed(['lobbies', LOBBY], draftIn(estado));
+        await assertSucceeds(getDoc(doc(as(LEADER_A), 'lobbies', LOBBY)));
+        await assertSucceeds(getDoc(doc(anonymous(), 'lobbies', LOBBY)));
+        await assertFails(getDoc(doc(signedOut(), 'lobbies', LOBBY)));
+      });
+
+      for (const me of [LEADER_A, PLAYERS[9], OUTSIDER]) {
+        const attempts = attemptsFor(estado, me);
+        for (const [label, patch] of Object.entries(attempts)) {
+          it(`${label} directo en Firestore se rechaza (${me.slice(-2)})`, async () => {
+            await seed(['lobbies', LOBBY], draftIn(estado));
+            await assertFails(updateDoc(doc(as(me), 'lobbies', LOBBY), patch));
+          });
+        }
+      }
+
+      it('no se puede pisar, crear ni borrar el draft', async () => {
+        await seed(['lobbies', LOBBY], draftIn(estado));
+        const db = as(LEADER_A);
+        await assertFails(setDoc(doc(db, 'lobbies', LOBBY), draftIn('esperando_jugadores')));
+        await assertFails(setDoc(doc(db, 'lobbies', 'otro-lobby'), draftIn(estado)));
+        await assertFails(deleteDoc(doc(db, 'lobbies', LOBBY)));
+      });
+
+      it('el match publicado es de solo lectura', async () => {
+        await seed(['lobbies', LOBBY, 'live', 'current'], { ...draftIn(estado), matchId: '1' });
+        const db = as(LEADER_A);
+        await assertSucceeds(getDoc(doc(db, 'lobbies', LOBBY, 'live', 'current')));
+        await assertFails(
+          updateDoc(doc(db, 'lobbies', LOBBY, 'live', 'current'), { startInProgress: false })
+        );
+      });
+    });
+  }
+
+  describe('steamProfiles', () => {
+    const profile = (steamId: string) => ({
+      steamId,
+      personaName: 'jugador',
+      avatar: 'https://avatars.steamstatic.com/x.jpg',
+      profileUrl: `https://steamcommunity.com/profiles/${steamId}`,
+      updatedAt: serverTimestamp(),
+    });
+
+    it('cada uno escribe su propio perfil', async () => {
+      const db = as(OUTSIDER);
+      await assertSucceeds(setDoc(doc(db, 'steamProfiles', OUTSIDER), profile(OUTSIDER)));
+      await assertSucceeds(
+        setDoc(doc(db, 'steamProfiles', OUTSIDER), profile(OUTSIDER), { merge: true })
+      );
+    });
+
+    it('el dueño actualiza solo los campos permitidos', async () => {
+      await seed(['steamProfiles', OUTSIDER], {
+        steamId: OUTSIDER,
+        personaName: 'viejo',
+        avatar: 'https://avatars.steamstatic.com/x.jpg',
+        profileUrl: `https://steamcommunity.com/profiles/${OUTSIDER}`,
+        rating: { value: 1500 },
+      });
+      const ref = doc(as(OUTSIDER), 'steamProfiles', OUTSIDER);
+      await assertSucceeds(updateDoc(ref, { personaName: 'nuevo', updatedAt: serverTimestamp() }));
+      await assertSucceeds(setDoc(ref, profile(OUTSIDER), { merge: true }));
+      await assertSucceeds(getDoc(doc(as(LEADER_A), 'steamProfiles', OUTSIDER)));
+    });
+
+    it('rechaza perfiles con campos inválidos', async () => {
+      const ref = doc(as(OUTSIDER), 'steamProfiles', OUTSIDER);
+      await assertFails(setDoc(ref, { ...profile(OUTSIDER), updatedAt: new Date() }));
+      await assertFails(setDoc(ref, { ...profile(OUTSIDER), personaName: 'x'.repeat(65) }));
+      await assertFails(setDoc(ref, { ...profile(OUTSIDER), steamId: LEADER_A }));
+      await assertFails(setDoc(ref, { ...profile(OUTSIDER), isAdmin: true }));
+    });
+
+    it('no se puede escribir el perfil de otro', async () => {
+      await assertFails(setDoc(doc(as(OUTSIDER), 'steamProfiles', LEADER_A), profile(LEADER_A)));
+      await assertFails(setDoc(doc(anonymous(), 'steamProfiles', LEADER_A), profile(LEADER_A)));
+    });
+
+    it('el rating lo escribe solo el backend', async () => {
+      await seed(['steamProfiles', OUTSIDER], { steamId: OUTSIDER, rating: { value: 1500 } });
+      const ref = doc(as(OUTSIDER), 'steamProfiles', OUTSIDER);
+      await assertFails(updateDoc(ref, { rating: { value: 3000 } }));
+      await assertFails(setDoc(ref, { ...profile(OUTSIDER), rating: { value: 3000 } }));
+      await assertFails(deleteDoc(ref));
+    });
+  });
+
+  describe('colecciones del backend', () => {
+    it('presence y matchHistory se leen pero no se escriben', async () => {
+      const db = as(OUTSIDER);
+      await assertSucceeds(getDoc(doc(db, 'presence', OUTSIDER)));
+      await assertFails(setDoc(doc(db, 'presence', OUTSIDER), { lastSeenAt: serverTimestamp() }));
+      await assertSucceeds(getDoc(doc(db, 'matchHistory', '1')));
+      await assertFails(getDoc(doc(anonymous(), 'matchHistory', '1')));
+      await assertFails(setDoc(doc(db, 'matchHistory', '1'), { winner: 'team1' }));
+    });
+
+    it('servers, matchEvents, penalties y config no se leen desde el cliente', async () => {
+      const db = as(OUTSIDER);
+      await assertFails(getDoc(doc(db, 'config', 'discord')));
+      await assertFails(getDoc(doc(db, 'servers', 'cs2-1')));
+      await assertFails(getDoc(doc(db, 'penalties', OUTSIDER)));
+      await assertFails(getDoc(doc(db, 'matchEvents', '1', 'events', 'e1')));
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { strict as assert } from 'assert';
+import { generateKeyPairSync, sign } from 'crypto';
+import { describe, it } from 'node:test';
+import {
+  discordPublicKey,
+  handleInteraction,
+  verifyDiscordSignature,
+} from '../src/interactions.js';
+import { LobbyError } from '../src/lobby.js';
+
+// Igual que Discord: firma Ed25519 de timestamp + body con la clave de la aplicación
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const publicKeyHex = publicKey
+  .export({ format: 'der', type: 'spki' })
+  .subarray(-32)
+  .toString('hex');
+
+function signed(body: unknown, timestamp = String(Math.floor(Date.now() / 1000))) {
+  const rawBody = Buffer.from(JSON.stringify(body), 'utf8');
+  const signature = sign(null, Buffer.concat([Buffer.from(timestamp), rawBody]), privateKey);
+  return { rawBody, timestamp, signature: signature.toString('hex') };
+}
+
+describe('verifyDiscordSignature', () => {
+  const key = discordPublicKey(publicKeyHex);
+
+  it('acepta un payload firmado con la clave de la aplicación', () => {
+    const { rawBody, timestamp, signature } = signed({ type: 1 });
+    assert.equal(verifyDiscordSignature(key, signature, timestamp, rawBody), true);
+  });
+
+  it('rechaza body alterado, firma con otra clave o timestamp viejo', () => {
+    const { rawBody, timestamp, signature } = signed({ type: 1 });
+    const tampered = Buffer.from(JSON.stringify({ type: 2 }));
+    assert.equal(verifyDiscordSignature(key, signature, timestamp, tampered), false);
+
+    const other = generateKeyPairSync('ed25519').publicKey;
+    assert.equal(verifyDiscordSignature(other, signature, timestamp, rawBody), false);
+
+    const old = signed({ type: 1 }, String(Math.floor(Date.now() / 1000) - 3600));
+    assert.equal(verifyDiscordSignature(key, old.signature, old.timestamp, old.rawBody), false);
+    assert.equal(verifyDiscordSignature(key, undefined, timestamp, rawBody), false);
+  });
+
+  it('valida el formato de la clave pública', () => {
+    assert.throws(
+      () => discordPublicKey('xyz'),
+      (e: any) => e instanceof LobbyError && e.status === 503
+    );
+  });
+});
+
+describe('handleInteraction', () => {
+  it('responde PONG al PING', async () => {
+    assert.deepEqual(await handleInteraction({ type: 1 }), { type: 1 });
+  });
+
+  it('comando desconocido vuelve como mensaje efímero', async () => {
+    const response = await handleInteraction({
+      type: 2,
+      member: { user: { id: '1234' } },
+      data: { name: 'nope' },
+    });
+    assert.equal(response.type, 4);
+    assert.equal(response.data?.flags, 64);
+  });
+});
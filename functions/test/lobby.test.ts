@@ -0,0 +1,77 @@
+import { strict as assert } from 'assert';
+import * as admin from 'firebase-admin';
+import { before, describe, it } from 'node:test';
+import {
+  DEFAULT_LOBBY_ID,
+  LobbyError,
+  completeMatch,
+  ensureLobby,
+  liveMatchRef,
+  loadMatch,
+  lobbyRef,
+} from '../src/lobby.js';
+import { MATCH_HISTORY_COLLECTION } from '../src/history.js';
+
+// Corre contra el emulador de Firestore: npm run test:rules (sin emulador se saltea)
+const EMULATOR = process.env.FIRESTORE_EMULATOR_HOST;
+
+const TEAM1 = ['76561198000000001', '76561198000000002'];
+const TEAM2 = ['76561198000000003', '76561198000000004'];
+
+// Lo mismo que arma /api/match/load para un wingman bo1
+function loadedMatch(): Record<string, unknown> {
+  return {
+    estado: 'seleccionando_mapa',
+    map: 'de_inferno',
+    maplist: ['de_inferno'],
+    numMaps: 1,
+    mapSides: null,
+    mode: 'wingman',
+    playersPerTeam: 2,
+    wingman: true,
+    team1: { name: 'Team A', players: TEAM1 },
+    team2: { name: 'Team B', players: TEAM2 },
+    queue: [],
+    unassigned: [],
+  };
+}
+
+describe('loadMatch', { skip: !EMULATOR && 'FIRESTORE_EMULATOR_HOST no seteado' }, () => {
+  before(() => {
+    admin.initializeApp({ projectId: 'demo-clouset' });
+  });
+
+  it('series_end cierra y archiva un match cargado por un admin', async () => {
+    await ensureLobby(DEFAULT_LOBBY_ID);
+    const matchId = await loadMatch(DEFAULT_LOBBY_ID, loadedMatch());
+
+    const draft = (await lobbyRef(DEFAULT_LOBBY_ID).get()).data();
+    assert.equal(draft?.estado, 'en_curso');
+    assert.equal(draft?.matchId, matchId);
+    assert.deepEqual(draft?.team1?.players, TEAM1);
+    const live = (await liveMatchRef(DEFAULT_LOBBY_ID).get()).data();
+    assert.equal(live?.matchId, matchId);
+
+    assert.equal(await completeMatch(DEFAULT_LOBBY_ID, matchId, 'team1'), true);
+
+    const entry = (
+      await admin.firestore().collection(MATCH_HISTORY_COLLECTION).doc(matchId).get()
+    ).data();
+    assert.equal(entry?.outcome, 'finished');
+    assert.equal(entry?.winner, 'team1');
+    assert.deepEqual(entry?.players, [...TEAM1, ...TEAM2]);
+
+    // el reset no deja el matchId viejo para el próximo match
+    const reset = (await lobbyRef(DEFAULT_LOBBY_ID).get()).data();
+    assert.equal(reset?.estado, 'esperando_jugadores');
+    assert.equal(reset?.matchId, undefined);
+  });
+
+  it('rechaza lobbies que no existen sin crearlos', async () => {
+    await assert.rejects(
+      loadMatch('no-existe', loadedMatch()),
+      (e: any) => e instanceof LobbyError && e.status === 404
+    );
+    assert.equal((await lobbyRef('no-existe').get()).exists, false);
+  });
+});
@@ -0,0 +1,36 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { halfOf, roundWinReason } from '../src/matchzy.js';
+
+describe('halfOf', () => {
+  it('MR12: la segunda mitad arranca después de 12 rondas', () => {
+    assert.deepEqual(halfOf(0, false), { half: 1, overtime: 0 });
+    assert.deepEqual(halfOf(11, false), { half: 1, overtime: 0 });
+    assert.deepEqual(halfOf(12, false), { half: 2, overtime: 0 });
+    assert.deepEqual(halfOf(23, false), { half: 2, overtime: 0 });
+  });
+
+  it('wingman cambia de lado a las 8', () => {
+    assert.deepEqual(halfOf(7, true), { half: 1, overtime: 0 });
+    assert.deepEqual(halfOf(8, true), { half: 2, overtime: 0 });
+  });
+
+  it('overtimes MR3 con sus dos mitades', () => {
+    assert.deepEqual(halfOf(24, false), { half: 1, overtime: 1 });
+    assert.deepEqual(halfOf(27, false), { half: 2, overtime: 1 });
+    assert.deepEqual(halfOf(30, false), { half: 1, overtime: 2 });
+    assert.deepEqual(halfOf(16, true), { half: 1, overtime: 1 });
+  });
+});
+
+describe('roundWinReason', () => {
+  it('traduce el RoundEndReason de CS2', () => {
+    assert.equal(roundWinReason(1), 'bomb_exploded');
+    assert.equal(roundWinReason('7'), 'bomb_defused');
+    assert.equal(roundWinReason(8), 'elimination');
+    assert.equal(roundWinReason(9), 'elimination');
+    assert.equal(roundWinReason(12), 'time');
+    assert.equal(roundWinReason(17), 'surrender');
+    assert.equal(roundWinReason(undefined), 'other');
+  });
+});
@@ -0,0 +1,53 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { LobbyError, moveDraftPlayer } from '../src/lobby.js';
+
+const T1 = ['a1', 'a2', 'a3', 'a4', 'a5'];
+const T2 = ['b1', 'b2', 'b3', 'b4', 'b5'];
+
+// Draft 5v5 en pleno veto (los primeros de cada equipo son los líderes)
+function vetoDraft(team1 = T1, team2 = T2): Record<string, unknown> {
+  return {
+    estado: 'seleccionando_mapa',
+    mode: '5v5',
+    playersPerTeam: 5,
+    queue: [],
+    unassigned: [],
+    team1: { name: 'Team A', players: team1 },
+    team2: { name: 'Team B', players: team2 },
+  };
+}
+
+const conflict = (e: any) => e instanceof LobbyError && e.status === 409;
+
+describe('moveDraftPlayer', () => {
+  it('cambiar de equipo en el veto no tira el draft', () => {
+    const slots = moveDraftPlayer(vetoDraft(T1, T2.slice(0, 4)), 'a3', 'team2');
+    assert.ok(slots);
+    assert.deepEqual(slots.team1, ['a1', 'a2', 'a4', 'a5']);
+    assert.deepEqual(slots.team2, ['b1', 'b2', 'b3', 'b4', 'a3']);
+  });
+
+  it('a un equipo completo se rechaza sin tocar el draft', () => {
+    assert.throws(() => moveDraftPlayer(vetoDraft(), 'a3', 'team2'), conflict);
+  });
+
+  it('sacar a alguien con los equipos justos tira el draft', () => {
+    assert.equal(moveDraftPlayer(vetoDraft(), 'a3', 'out'), null);
+  });
+
+  it('sacar a alguien con jugadores de sobra no tira el draft', () => {
+    const draft = { ...vetoDraft(), estado: 'armando_equipos', unassigned: ['x1'] };
+    const slots = moveDraftPlayer(draft, 'a3', 'out');
+    assert.ok(slots);
+    assert.deepEqual(slots.unassigned, ['x1']);
+    assert.equal(slots.team1.includes('a3'), false);
+  });
+
+  it('no mueve líderes ni mueve entre equipos durante los picks', () => {
+    assert.throws(() => moveDraftPlayer(vetoDraft(), 'a1', 'out'), conflict);
+    assert.throws(() => moveDraftPlayer(vetoDraft(), 'b1', 'team1'), conflict);
+    const picking = { ...vetoDraft(T1, T2.slice(0, 4)), estado: 'armando_equipos' };
+    assert.throws(() => moveDraftPlayer(picking, 'a3', 'team2'), conflict);
+  });
+});
@@ -0,0 +1,31 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { COOLDOWN_STEPS_MS, OFFENSE_WINDOW_MS, cooldownUntilMs } from '../src/penalties.js';
+
+const NOW = Date.UTC(2025, 0, 10, 12);
+const MIN = 60_000;
+
+describe('cooldownUntilMs', () => {
+  it('sin ofensas recientes no hay cooldown', () => {
+    assert.equal(cooldownUntilMs([], NOW), null);
+    assert.equal(cooldownUntilMs([NOW - OFFENSE_WINDOW_MS - MIN], NOW), null);
+  });
+
+  it('escala con cada ofensa de la ventana, desde la última', () => {
+    assert.equal(cooldownUntilMs([NOW - MIN], NOW), NOW - MIN + COOLDOWN_STEPS_MS[0]);
+    assert.equal(
+      cooldownUntilMs([NOW - 3 * 24 * 60 * MIN, NOW - MIN], NOW),
+      NOW - MIN + COOLDOWN_STEPS_MS[1]
+    );
+  });
+
+  it('se queda en el último escalón', () => {
+    const many = Array.from({ length: 8 }, (_, i) => NOW - (i + 1) * MIN);
+    const last = COOLDOWN_STEPS_MS[COOLDOWN_STEPS_MS.length - 1];
+    assert.equal(cooldownUntilMs(many, NOW), NOW - MIN + last);
+  });
+
+  it('un cooldown ya cumplido no bloquea', () => {
+    assert.equal(cooldownUntilMs([NOW - COOLDOWN_STEPS_MS[0] - MIN], NOW), null);
+  });
+});
@@ -0,0 +1,50 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { parsePickOrder, readSettings } from '../src/lobby.js';
+
+describe('parsePickOrder', () => {
+  it('traduce A/B a team1/team2', () => {
+    assert.deepEqual(parsePickOrder('ABBAABBA'), [
+      'team1',
+      'team2',
+      'team2',
+      'team1',
+      'team1',
+      'team2',
+      'team2',
+      'team1',
+    ]);
+  });
+
+  it('rechaza largos que no coinciden con el tamaño del equipo', () => {
+    assert.equal(parsePickOrder('ABBA'), null);
+    assert.equal(parsePickOrder('ABBAABBAAB'), null);
+    assert.equal(parsePickOrder(''), null);
+  });
+
+  it('rechaza caracteres inválidos y valores que no son string', () => {
+    assert.equal(parsePickOrder('abbaabba'), null);
+    assert.equal(parsePickOrder('ABBA-BBA'), null);
+    assert.equal(parsePickOrder(['A', 'B']), null);
+    assert.equal(parsePickOrder(undefined), null);
+  });
+
+  it('rechaza órdenes con más picks para un equipo', () => {
+    assert.equal(parsePickOrder('AAAAABBB'), null);
+    assert.equal(parsePickOrder('BBBBBBBB'), null);
+  });
+
+  it('respeta el tamaño de equipo de cada modo', () => {
+    assert.deepEqual(parsePickOrder('AB', 2), ['team1', 'team2']);
+    assert.deepEqual(parsePickOrder('BA', 2), ['team2', 'team1']);
+    assert.deepEqual(parsePickOrder('ABBA', 3), ['team1', 'team2', 'team2', 'team1']);
+    assert.equal(parsePickOrder('ABBAABBA', 2), null);
+  });
+});
+
+describe('readSettings', () => {
+  it('vuelve al orden alternado si el guardado no es válido', () => {
+    assert.equal(readSettings({ settings: { pickOrder: 'AAAA' } }).pickOrder, 'ABABABAB');
+    assert.equal(readSettings({ settings: { pickOrder: 'ABBAABBA' } }).pickOrder, 'ABBAABBA');
+  });
+});
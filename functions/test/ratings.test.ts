@@ -0,0 +1,87 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import {
+  DEFAULT_RATING_CONFIG,
+  PlayerRating,
+  applyMatchResult,
+  initialRating,
+  readRating,
+} from '../src/ratings.js';
+
+const config = DEFAULT_RATING_CONFIG;
+
+function rating(value: number, games: number): PlayerRating {
+  return { ...initialRating(config), value, games, provisional: games < config.provisionalGames };
+}
+
+describe('applyMatchResult', () => {
+  it('equipos parejos: el ganador suma K/2 y el perdedor resta lo mismo', () => {
+    const ratings = { a: rating(1500, 20), b: rating(1500, 20) };
+    const next = applyMatchResult(ratings, ['a'], ['b'], 'team1', 'm1', config);
+
+    assert.equal(next.a.value, 1500 + config.kFactor / 2);
+    assert.equal(next.b.value, 1500 - config.kFactor / 2);
+    assert.deepEqual([next.a.wins, next.a.losses, next.a.games], [1, 0, 21]);
+    assert.deepEqual([next.b.wins, next.b.losses, next.b.games], [0, 1, 21]);
+    assert.equal(next.a.lastMatchId, 'm1');
+  });
+
+  it('compara contra el promedio del equipo rival', () => {
+    const ratings = {
+      a: rating(1700, 20),
+      b: rating(1500, 20),
+      c: rating(1600, 20),
+      d: rating(1600, 20),
+    };
+    // promedios 1600 vs 1600: todos ajustan ±K/2 aunque individualmente difieran
+    const next = applyMatchResult(ratings, ['a', 'b'], ['c', 'd'], 'team2', 'm1', config);
+    assert.equal(next.a.value, 1700 - 16);
+    assert.equal(next.b.value, 1500 - 16);
+    assert.equal(next.c.value, 1600 + 16);
+  });
+
+  it('ganarle a un equipo mucho más fuerte suma más', () => {
+    const ratings = { weak: rating(1300, 20), strong: rating(1700, 20) };
+    const upset = applyMatchResult(ratings, ['weak'], ['strong'], 'team1', 'm1', config);
+    const expected = applyMatchResult(ratings, ['weak'], ['strong'], 'team2', 'm1', config);
+
+    // expected score del débil = 1 / (1 + 10^(400/400)) ≈ 0.0909
+    assert.equal(upset.weak.value, 1300 + Math.round(config.kFactor * (1 - 1 / 11)));
+    assert.equal(upset.strong.value, 1700 - Math.round(config.kFactor * (1 - 1 / 11)));
+    assert.equal(expected.strong.value, 1700 + Math.round(config.kFactor / 11));
+  });
+
+  it('los provisionales usan el K alto hasta completar provisionalGames', () => {
+    const ratings = { fresh: rating(1500, 0), vet: rating(1500, 50) };
+    const next = applyMatchResult(ratings, ['fresh'], ['vet'], 'team1', 'm1', config);
+
+    assert.equal(next.fresh.value, 1500 + config.provisionalKFactor / 2);
+    assert.equal(next.vet.value, 1500 - config.kFactor / 2);
+    assert.equal(next.fresh.provisional, true);
+
+    const last = rating(1500, config.provisionalGames - 1);
+    const after = applyMatchResult(
+      { last, vet: ratings.vet },
+      ['last'],
+      ['vet'],
+      'team2',
+      'm2',
+      config
+    );
+    assert.equal(after.last.provisional, false);
+  });
+});
+
+describe('readRating', () => {
+  it('sin rating guardado arranca con el inicial y provisional', () => {
+    assert.deepEqual(readRating(undefined, config), initialRating(config));
+    assert.deepEqual(readRating({ rating: { value: 'x' } }, config), initialRating(config));
+  });
+
+  it('recalcula provisional con la config actual', () => {
+    const data = { rating: { value: 1620, games: 12, wins: 8, losses: 4, lastMatchId: 'm9' } };
+    assert.equal(readRating(data, config).provisional, false);
+    assert.equal(readRating(data, { ...config, provisionalGames: 20 }).provisional, true);
+    assert.equal(readRating(data, config).lastMatchId, 'm9');
+  });
+});
@@ -0,0 +1,92 @@
+import { strict as assert } from 'assert';
+import { after, before, describe, it } from 'node:test';
+import {
+  RconAuthError,
+  RconError,
+  RconPacketReader,
+  SERVERDATA_EXECCOMMAND,
+  encodePacket,
+  rconCommand,
+} from '../src/rcon.js';
+import { rconTransport } from '../src/transport.js';
+import { FakeRconServer, startFakeRconServer } from './fake-rcon-server.js';
+
+const PASSWORD = 'secreto';
+
+describe('RconPacketReader', () => {
+  it('arma paquetes partidos y varios paquetes en un mismo chunk', () => {
+    const a = encodePacket({ id: 7, type: SERVERDATA_EXECCOMMAND, body: 'status' });
+    const b = encodePacket({ id: 8, type: 0, body: '' });
+    const both = Buffer.concat([a, b]);
+    const reader = new RconPacketReader();
+
+    assert.deepEqual(reader.push(both.subarray(0, 5)), []);
+    assert.deepEqual(reader.push(both.subarray(5)), [
+      { id: 7, type: SERVERDATA_EXECCOMMAND, body: 'status' },
+      { id: 8, type: 0, body: '' },
+    ]);
+  });
+
+  it('rechaza tamaños inválidos', () => {
+    const bad = Buffer.alloc(12);
+    bad.writeInt32LE(3, 0);
+    assert.throws(() => new RconPacketReader().push(bad), RconError);
+  });
+});
+
+describe('rconCommand', () => {
+  let server: FakeRconServer;
+
+  before(async () => {
+    server = await startFakeRconServer({
+      password: PASSWORD,
+      chunkSize: 100,
+      respond: (command) => (command === 'status' ? 'x'.repeat(250) : `ok: ${command}`),
+    });
+  });
+
+  after(() => server.close());
+
+  const options = () => ({ host: '127.0.0.1', port: server.port, password: PASSWORD });
+
+  it('autentica y devuelve la salida de consola', async () => {
+    assert.equal(await rconCommand(options(), 'mp_restartgame 1'), 'ok: mp_restartgame 1');
+    assert.ok(server.commands.includes('mp_restartgame 1'));
+  });
+
+  it('junta respuestas de varios paquetes', async () => {
+    assert.equal(await rconCommand(options(), 'status'), 'x'.repeat(250));
+  });
+
+  it('falla con RconAuthError si la password es incorrecta', async () => {
+    await assert.rejects(rconCommand({ ...options(), password: 'otra' }, 'status'), RconAuthError);
+  });
+
+  it('funciona como transporte de comandos', async () => {
+    const transport = rconTransport(options());
+    assert.equal(transport.kind, 'rcon');
+    assert.equal(await transport.send('mp_warmup_end'), 'ok: mp_warmup_end');
+  });
+});
+
+describe('rconCommand timeouts', () => {
+  it('corta si el servidor no responde', async () => {
+    const silent = await startFakeRconServer({ password: PASSWORD, silent: true });
+    const options = { host: '127.0.0.1', port: silent.port, password: PASSWORD, timeoutMs: 200 };
+    try {
+      await assert.rejects(rconCommand(options, 'status'), /timeout/);
+    } finally {
+      await silent.close();
+    }
+  });
+
+  it('falla si no hay nada escuchando', async () => {
+    const closed = await startFakeRconServer({ password: PASSWORD });
+    const port = closed.port;
+    await closed.close();
+    await assert.rejects(
+      rconCommand({ host: '127.0.0.1', port, password: PASSWORD, timeoutMs: 1_000 }, 'status'),
+      RconError
+    );
+  });
+});
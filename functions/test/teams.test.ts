@@ -0,0 +1,67 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { balanceTeams, premadeGroups } from '../src/teams.js';
+
+const ratings: Record<string, number> = {
+  a: 2000,
+  b: 1800,
+  c: 1600,
+  d: 1400,
+  e: 1300,
+  f: 900,
+};
+const players = Object.keys(ratings);
+
+describe('premadeGroups', () => {
+  it('solo cuenta pedidos mutuos entre jugadores del lobby', () => {
+    const requests = { a: 'b', b: 'a', c: 'd', e: 'z', z: 'e' };
+    assert.deepEqual(premadeGroups(requests, players), [['a', 'b']]);
+  });
+
+  it('no repite un jugador en dos grupos', () => {
+    assert.deepEqual(premadeGroups({ a: 'b', b: 'a' }, ['b', 'a']), [['b', 'a']]);
+  });
+});
+
+describe('balanceTeams', () => {
+  it('elige la partición con menor diferencia de rating', () => {
+    const result = balanceTeams(players, ratings, 3);
+    assert.ok(result);
+    // a+c+f = 4500 contra b+d+e = 4500
+    assert.equal(result.balance.diff, 0);
+    assert.equal(result.balance.team1Avg, 1500);
+    assert.equal(result.balance.team2Avg, 1500);
+    assert.deepEqual([...result.team1, ...result.team2].sort(), [...players].sort());
+  });
+
+  it('ordena cada equipo por rating (el primero queda de líder)', () => {
+    const result = balanceTeams(players, ratings, 3);
+    assert.ok(result);
+    for (const team of [result.team1, result.team2]) {
+      const values = team.map((id) => ratings[id]);
+      assert.deepEqual(
+        values,
+        [...values].sort((x, y) => y - x)
+      );
+    }
+  });
+
+  it('nunca separa un premade', () => {
+    const result = balanceTeams(players, ratings, 3, [['a', 'b']]);
+    assert.ok(result);
+    const sameTeam = [result.team1, result.team2].some((t) => t.includes('a') && t.includes('b'));
+    assert.ok(sameTeam);
+    // a+b+f = 4700 contra 4300: la mejor partición posible con ese premade
+    assert.deepEqual(result.team1, ['a', 'b', 'f']);
+    assert.equal(result.balance.diff, Math.round(400 / 3));
+  });
+
+  it('devuelve null con una cantidad de jugadores incorrecta', () => {
+    assert.equal(balanceTeams(players.slice(0, 5), ratings, 3), null);
+    assert.equal(balanceTeams([], ratings, 0), null);
+  });
+
+  it('devuelve null si los premades no entran en ningún equipo', () => {
+    assert.equal(balanceTeams(['a', 'b', 'c', 'd'], ratings, 2, [['a', 'b', 'c']]), null);
+  });
+});
@@ -0,0 +1,49 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { WINGMAN_MAP_POOL, lobbySizeFor, modeConfig, playersPerTeamOf } from '../src/modes.js';
+import { supportsSeries, vetoStepsFor } from '../src/veto.js';
+import { readSettings } from '../src/lobby.js';
+
+const compact = (format: 'bo1' | 'bo3' | 'bo5', poolSize?: number) =>
+  vetoStepsFor(format, poolSize)
+    .map((s) => `${s.team === 'team1' ? 'A' : 'B'}${s.action === 'ban' ? 'b' : 'p'}`)
+    .join(' ');
+
+describe('vetoStepsFor', () => {
+  it('con el pool de 7 mantiene las secuencias fijas', () => {
+    assert.equal(compact('bo1'), 'Ab Ab Bb Bb Ab Bb');
+    assert.equal(compact('bo3', 7), 'Ab Bb Ap Bp Ab Bb');
+  });
+
+  it('con el pool de wingman deja un decider', () => {
+    const poolSize = WINGMAN_MAP_POOL.length;
+    assert.equal(compact('bo1', poolSize), 'Ab Bb Ab');
+    assert.equal(compact('bo3', poolSize), 'Ab Bp Ap');
+    assert.equal(supportsSeries('bo5', poolSize), false);
+  });
+
+  it('un pool de un solo mapa no alcanza ni para bo1 (el veto quedaría sin pasos)', () => {
+    assert.deepEqual(vetoStepsFor('bo1', 1), []);
+    assert.equal(supportsSeries('bo1', 1), false);
+    assert.equal(supportsSeries('bo1', 2), true);
+    assert.equal(compact('bo1', 2), 'Ab');
+    assert.equal(supportsSeries('bo3', 3), true);
+    assert.equal(compact('bo3', 3), 'Ap Bp');
+    // un pool guardado de un mapa vuelve al del modo
+    assert.equal(readSettings({ settings: { mapPool: ['de_nuke'] } }).mapPool, null);
+  });
+});
+
+describe('modos', () => {
+  it('tamaños por modo', () => {
+    assert.equal(lobbySizeFor('wingman'), 4);
+    assert.equal(lobbySizeFor('3v3'), 6);
+    assert.equal(modeConfig('wingman').wingman, true);
+  });
+
+  it('los docs sin modo son 5v5', () => {
+    assert.equal(playersPerTeamOf({}), 5);
+    assert.equal(playersPerTeamOf({ mode: 'wingman' }), 2);
+    assert.equal(playersPerTeamOf({ mode: '5v5', playersPerTeam: 3 }), 3);
+  });
+});
@@ -1,7 +1,9 @@
 import { Routes } from '@angular/router';
 import { LoginComponent } from './pages/login/login.component';
 import { DashboardComponent } from './pages/dashboard/dashboard.component';
+import { AdminComponent } from './pages/admin/admin.component';
 import { authGuard } from './core/auth/auth.guard';
+import { adminGuard } from './core/auth/admin.guard';
 import { loginRedirectGuard } from './core/auth/login-redirect.guard';
 
 export const routes: Routes = [
@@ -13,5 +15,8 @@ export const routes: Routes = [
   // Protegida: si no estás logueado → /login
   { path: 'dashboard', component: DashboardComponent, canActivate: [authGuard] },
 
+  // Solo admins (claim admin): si no → /dashboard
+  { path: 'admin', component: AdminComponent, canActivate: [adminGuard] },
+
   { path: '**', redirectTo: 'dashboard' },
 ];
@@ -0,0 +1,145 @@
+import { Injectable, NgZone } from '@angular/core';
+import { Observable } from 'rxjs';
+import { doc, onSnapshot, FirestoreError } from 'firebase/firestore';
+import { db } from '../firebase/firebase';
+import { apiPost } from '../api/api';
+import { LobbySettings } from '../match/match.service';
+
+// Destino al mover un jugador (out = sacarlo del lobby)
+export type PlayerSlot = 'queue' | 'team1' | 'team2' | 'out';
+
+// Estado del start en lobbies/{lobbyId}/live/current
+export type LiveStartState = {
+  estado: string | null;
+  startInProgress: boolean;
+  startError: string | null;
+  serverId: string | null;
+};
+
+export type OffenseReason = 'ready_check_failed' | 'left_draft' | 'abandoned_match';
+
+export type PenaltyOffense = {
+  id: string;
+  reason: OffenseReason;
+  source: 'system' | 'server' | 'admin';
+  lobbyId: string | null;
+  matchId: string | null;
+  note: string | null;
+  reportedBy: string | null;
+  at: string;
+  pardonedAt: string | null;
+  pardonedBy: string | null;
+};
+
+// penalties/{steamId} (las ofensas vienen de la más nueva a la más vieja)
+export type PlayerPenalty = {
+  steamId: string;
+  cooldownUntil: string | null;
+  offenses: PenaltyOffense[];
+};
+
+export type DiscordEvent =
+  | 'queue_milestone'
+  | 'queue_full'
+  | 'leaders_chosen'
+  | 'map_decided'
+  | 'match_started'
+  | 'match_result'
+  | 'match_cancelled';
+
+// config/discord: un webhook por comunidad / canal
+export type DiscordWebhook = {
+  name: string;
+  url: string;
+  events: DiscordEvent[];
+  queueMilestones: number[];
+};
+
+/**
+ * Acciones del panel de admin (/api/admin/* y /api/lobby/settings, todas validan el claim admin).
+ */
+@Injectable({ providedIn: 'root' })
+export class AdminService {
+  constructor(private zone: NgZone) {}
+
+  /** Estado del start publicado del lobby (realtime) */
+  liveStart$(lobbyId: string): Observable<LiveStartState | null> {
+    return new Observable<LiveStartState | null>((subscriber) => {
+      const unsubscribe = onSnapshot(
+        doc(db, 'lobbies', lobbyId, 'live', 'current'),
+        (snap) => {
+          const data = snap.data();
+          const state: LiveStartState | null = data
+            ? {
+                estado: data['estado'] ?? null,
+                startInProgress: data['startInProgress'] === true,
+                startError: data['startError'] ?? null,
+                serverId: data['server']?.id ?? null,
+              }
+            : null;
+          this.zone.run(() => subscriber.next(state));
+        },
+        (err: FirestoreError) => {
+          console.error('Live onSnapshot error:', err);
+          this.zone.run(() => subscriber.next(null));
+        }
+      );
+      return () => unsubscribe();
+    });
+  }
+
+  async resetLobby(lobbyId: string): Promise<void> {
+    await apiPost('/api/admin/lobby/reset', { lobbyId });
+  }
+
+  async movePlayer(lobbyId: string, steamId: string, to: PlayerSlot): Promise<void> {
+    await apiPost('/api/admin/lobby/move', { lobbyId, steamId, to });
+  }
+
+  /** null vuelve al pool del modo */
+  async setMapPool(lobbyId: string, mapPool: string[] | null): Promise<LobbySettings> {
+    const r = await apiPost<{ result: LobbySettings }>('/api/lobby/settings', { lobbyId, mapPool });
+    return r.result;
+  }
+
+  /** Reintenta startMatchIfReady; devuelve el resultado del backend (ok / reason) */
+  async startMatch(lobbyId: string): Promise<{ ok: boolean; reason?: string; error?: string }> {
+    const r = await apiPost<{ result: { ok: boolean; reason?: string; error?: string } }>(
+      '/api/admin/match/start',
+      { lobbyId }
+    );
+    return r.result;
+  }
+
+  async clearStart(lobbyId: string): Promise<void> {
+    await apiPost('/api/admin/match/clear-start', { lobbyId });
+  }
+
+  async getDiscordWebhooks(): Promise<DiscordWebhook[]> {
+    const r = await apiPost<{ result: { webhooks: DiscordWebhook[] } }>('/api/admin/discord', {});
+    return r.result.webhooks;
+  }
+
+  async saveDiscordWebhooks(webhooks: DiscordWebhook[]): Promise<DiscordWebhook[]> {
+    const r = await apiPost<{ result: { webhooks: DiscordWebhook[] } }>(
+      '/api/admin/discord/save',
+      { webhooks }
+    );
+    return r.result.webhooks;
+  }
+
+  async listPenalties(): Promise<PlayerPenalty[]> {
+    const r = await apiPost<{ result: PlayerPenalty[] }>('/api/admin/penalties', {});
+    return r.result;
+  }
+
+  /** offenseId null = perdonar todas las ofensas del jugador */
+  async pardon(steamId: string, offenseId: string | null): Promise<void> {
+    await apiPost('/api/admin/penalties/pardon', { steamId, offenseId });
+  }
+
+  /** Reporte manual (por defecto abandono del match en curso del lobby) */
+  async reportOffense(lobbyId: string, steamId: string, note: string | null): Promise<void> {
+    await apiPost('/api/admin/penalties/report', { lobbyId, steamId, note });
+  }
+}
@@ -0,0 +1,44 @@
+import { auth } from '../firebase/firebase';
+
+/**
+ * Error HTTP de /api/*: el mensaje es el texto que devolvió el backend.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * fetch a /api/* con el ID token de Firebase del usuario actual.
+ */
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = await auth.currentUser?.getIdToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  return fetch(path, { ...init, headers });
+}
+
+async function readResponse<T>(r: Response): Promise<T> {
+  if (!r.ok) {
+    const t = await r.text().catch(() => '');
+    throw new ApiError(r.status, t.trim() || `HTTP ${r.status}`);
+  }
+  return (await r.json()) as T;
+}
+
+export async function apiGet<T>(path: string): Promise<T> {
+  return readResponse<T>(await apiFetch(path));
+}
+
+export async function apiPost<T>(path: string, body: unknown = {}): Promise<T> {
+  const r = await apiFetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return readResponse<T>(r);
+}
@@ -0,0 +1,19 @@
+import { CanActivateFn, Router } from '@angular/router';
+import { inject } from '@angular/core';
+import { AuthService } from './auth.service';
+
+// Solo admins: sin sesión -> /login, sin claim admin -> /dashboard
+export const adminGuard: CanActivateFn = async () => {
+  const auth = inject(AuthService);
+  const router = inject(Router);
+
+  if (!(await auth.isLoggedInOnce())) {
+    router.navigateByUrl('/login');
+    return false;
+  }
+  if (!(await auth.isAdminOnce())) {
+    router.navigateByUrl('/dashboard');
+    return false;
+  }
+  return true;
+};
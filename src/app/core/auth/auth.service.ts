@@ -10,6 +10,7 @@ import {
 import { Observable } from 'rxjs';
 import { auth } from '../firebase/firebase';
 import { signInAnonymously } from 'firebase/auth';
+import { apiPost } from '../api/api';
 
 @Injectable({ providedIn: 'root' })
 export class AuthService {
@@ -44,6 +45,14 @@ export class AuthService {
     return !!(await this.getUserOnce());
   }
 
+  /** Claim admin del ID token (el backend lo sincroniza con la allowlist en cada login) */
+  async isAdminOnce(): Promise<boolean> {
+    const user = await this.getUserOnce();
+    if (!user) return false;
+    const token = await user.getIdTokenResult();
+    return token.claims['admin'] === true;
+  }
+
   async loginWithCustomToken(token: string): Promise<User> {
     await this.ensurePersistence();
     const cred = await signInWithCustomToken(auth, token);
@@ -60,4 +69,12 @@ export class AuthService {
     return cred.user;
   }
 
+  /** Código de un solo uso para vincular Discord (/link code:XXXXXX en el servidor) */
+  async createDiscordLinkCode(): Promise<{ code: string; expiresAt: string }> {
+    const r = await apiPost<{ result: { code: string; expiresAt: string } }>(
+      '/api/discord/link-code'
+    );
+    return r.result;
+  }
+
 }
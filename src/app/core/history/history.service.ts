@@ -0,0 +1,67 @@
+import { Injectable } from '@angular/core';
+import { getDownloadURL, ref } from 'firebase/storage';
+import { apiGet } from '../api/api';
+import { storage } from '../firebase/firebase';
+import { VetoLogEntry } from '../match/match.service';
+
+// Demo de un mapa subida por MatchZy (Storage: demos/{matchId}/{mapNumber}.dem)
+export type MatchDemo = {
+  mapNumber: number;
+  map: string | null;
+  path: string;
+  fileName: string;
+  size: number;
+  durationSec: number | null;
+  uploadedAt: string | null;
+};
+
+export type MatchHistoryEntry = {
+  matchId: string;
+  outcome: 'finished' | 'cancelled';
+  closedBy: 'finalize' | 'series_end' | 'cancel' | 'timeout';
+  winner: 'team1' | 'team2' | null;
+  cancelReason: string | null;
+  cancelledBy: string | null;
+  team1: { name: string; players: string[] };
+  team2: { name: string; players: string[] };
+  leaders: { team1: string | null; team2: string | null };
+  map: string | null;
+  seriesFormat?: 'bo1' | 'bo3' | 'bo5';
+  maplist?: string[];
+  veto: { mapPool: string[]; bannedMaps: string[]; log?: VetoLogEntry[] };
+  seriesScore?: { team1: number | null; team2: number | null };
+  mapResults: {
+    mapNumber: number;
+    map?: string | null;
+    winner: 'team1' | 'team2' | null;
+    team1Score: number;
+    team2Score: number;
+  }[];
+  demos?: MatchDemo[];
+  publishedAt: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type MatchHistoryPage = {
+  items: MatchHistoryEntry[];
+  nextCursor: string | null;
+};
+
+@Injectable({ providedIn: 'root' })
+export class HistoryService {
+  /**
+   * Historial paginado (más reciente primero).
+   * cursor = nextCursor de la página anterior.
+   */
+  async listPage(cursor: string | null = null, limit = 10): Promise<MatchHistoryPage> {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (cursor) params.set('cursor', cursor);
+    return apiGet<MatchHistoryPage>(`/api/history?${params.toString()}`);
+  }
+
+  /** URL de descarga de una demo (las reglas de Storage piden estar logueado) */
+  demoUrl(demo: MatchDemo): Promise<string> {
+    return getDownloadURL(ref(storage, demo.path));
+  }
+}
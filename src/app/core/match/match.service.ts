@@ -1,32 +1,111 @@
 import { Injectable, NgZone } from '@angular/core';
-import { BehaviorSubject } from 'rxjs';
 import {
+  BehaviorSubject,
+  Observable,
+  catchError,
+  from,
+  of,
+  shareReplay,
+  switchMap,
+  timer,
+} from 'rxjs';
+import {
+  collection,
   doc,
-  getDoc,
+  documentId,
   onSnapshot,
-  runTransaction,
-  serverTimestamp,
-  setDoc,
+  query,
+  where,
   Timestamp,
   FirestoreError,
 } from 'firebase/firestore';
 import { db } from '../firebase/firebase';
+import { apiFetch, apiGet, apiPost } from '../api/api';
 
 export type MatchEstado =
   | 'esperando_jugadores'
+  | 'confirmando_jugadores'
   | 'seleccionando_lideres'
   | 'armando_equipos'
   | 'seleccionando_mapa'
+  | 'eligiendo_lados'
   | 'en_curso';
 
+export type TeamFormation = 'captains' | 'balanced';
+
+export type SeriesFormat = 'bo1' | 'bo3' | 'bo5';
+
+// 5v5, 3v3 o wingman (2v2): define jugadores por equipo y pool de mapas
+export type GameMode = '5v5' | '3v3' | 'wingman';
+
+export type VetoStep = { team: 'team1' | 'team2'; action: 'ban' | 'pick' };
+
+export type VetoLogEntry = {
+  team: 'team1' | 'team2' | null;
+  action: 'ban' | 'pick' | 'decider';
+  map: string;
+};
+
+export type SideChoice = 'ct' | 't' | 'knife';
+
+// Lado por mapa: lo elige el líder de chooser; side = valor de map_sides de MatchZy
+export type SideSlot = {
+  map: string;
+  chooser: 'team1' | 'team2';
+  side: 'team1_ct' | 'team1_t' | 'team2_ct' | 'team2_t' | 'knife' | null;
+};
+
+export type CaptainStrategy = 'random' | 'rating' | 'volunteers' | 'least_recent';
+
+export type LobbySettings = {
+  mode?: GameMode;
+  teamFormation: TeamFormation;
+  captainStrategy?: CaptainStrategy;
+  // secuencia de picks A/B (ej: ABBAABBA)
+  pickOrder?: string;
+  seriesFormat?: SeriesFormat;
+  readyCheckSeconds?: number;
+  // pool editado por un admin (null = el del modo)
+  mapPool?: string[] | null;
+};
+
+// Publicado por el backend al elegir líderes: con el seed se puede recalcular el orden
+export type CaptainSelection = {
+  strategy: CaptainStrategy;
+  seed: string;
+  algorithm: string;
+  order: string[];
+  leaders: [string, string];
+};
+
 export type MatchDoc = {
   estado: MatchEstado;
   map: string | null;
+  matchId?: string;
+
+  // modo del lobby (lo fija el backend al resetear o al cambiar settings.mode)
+  mode?: GameMode;
+  playersPerTeam?: number;
 
   mapPool?: string[];
   bannedMaps?: string[];
   mapTurn?: 'team1' | 'team2' | null;
   mapBanCount?: number;
+  mapAction?: 'ban' | 'pick' | null;
+  seriesFormat?: SeriesFormat;
+  vetoSteps?: VetoStep[];
+  vetoLog?: VetoLogEntry[];
+  // mapas de la serie en orden (picks + decider)
+  maplist?: string[];
+  sideSlots?: SideSlot[];
+  sideTurn?: 'team1' | 'team2' | null;
+  sideChoiceDeadline?: Timestamp | null;
+  // plazos de pick/veto: si vencen el backend elige solo
+  pickDeadline?: Timestamp | null;
+  vetoDeadline?: Timestamp | null;
+  mapSides?: string[];
+  // servidor del pool asignado al match (la conexión se pide a /api/server/connection)
+  serverId?: string | null;
 
   team1: { name: string; players: string[] };
   team2: { name: string; players: string[] };
@@ -36,94 +115,165 @@ export type MatchDoc = {
   // campos “extra” que ya estás usando en functions
   unassigned?: string[];
   turn?: 'team1' | 'team2';
+  pickOrder?: ('team1' | 'team2')[];
   finalizeBy?: string[];
   leaderSelectionAt?: Timestamp | null;
-  publishInProgress?: boolean;
   publishedAt?: any;
 
+  settings?: LobbySettings;
+  // premades (modo balanced): steamId -> steamId con quien quiere jugar
+  premadeRequests?: Record<string, string>;
+  balance?: { team1Avg: number; team2Avg: number; diff: number; premades?: string[] } | null;
+  captainVolunteers?: string[];
+  captainSelection?: CaptainSelection | null;
+  // ready check (confirmando_jugadores)
+  readyAccepted?: string[];
+  readyCheckDeadline?: Timestamp | null;
+
   updatedAt?: any;
 };
 
-const MATCH_DRAFT_PATH = ['matches', 'draft'] as const;
-const MATCH_CURRENT_PATH = ['matches', 'current'] as const;
-const DEFAULT_MAP_POOL = [
-  'de_inferno',
-  'de_mirage',
-  'de_nuke',
-  'de_overpass',
-  'de_ancient',
-  'de_vertigo',
-  'de_anubis',
-] as const;
-
-const VALID_ESTADOS: MatchEstado[] = [
-  'esperando_jugadores',
-  'seleccionando_lideres',
-  'armando_equipos',
-  'seleccionando_mapa',
-  'en_curso',
-];
-
-function initialMatch(): MatchDoc {
+// lobbies/{lobbyId} = draft del lobby (solo lectura desde el cliente)
+const LOBBIES_COLLECTION = 'lobbies';
+export const DEFAULT_LOBBY_ID = 'default';
+const LOBBY_STORAGE_KEY = 'lobbyId';
+
+// Respuesta de /api/server/connection
+export type ServerConnection = {
+  serverId: string;
+  name: string;
+  region: string;
+  host: string;
+  port: number;
+  spectatePort: number;
+  connectUrl: string;
+  spectateUrl: string;
+};
+
+// Respuesta de /api/server/status (A2S, cacheada unos segundos en el backend)
+export type ServerLiveStatus = {
+  serverId: string;
+  online: boolean;
+  map: string | null;
+  players: number;
+  maxPlayers: number;
+  playerNames: string[];
+  latencyMs: number | null;
+  checkedAt: string;
+};
+
+export type LivePlayerStats = {
+  name: string;
+  team: 'team1' | 'team2';
+  kills: number;
+  deaths: number;
+  assists: number;
+  damage: number;
+  headshotKills: number;
+};
+
+export type RoundWinReason =
+  | 'bomb_exploded'
+  | 'bomb_defused'
+  | 'elimination'
+  | 'time'
+  | 'surrender'
+  | 'other';
+
+export type RoundResult = {
+  mapNumber: number;
+  round: number;
+  winner: 'team1' | 'team2' | null;
+  side: 'ct' | 't' | null;
+  reason: RoundWinReason;
+};
+
+// Resumen live de lobbies/{lobbyId}/live/current (lo actualizan los eventos de MatchZy)
+export type LiveScoreboard = {
+  status: 'warmup' | 'live' | 'map_end' | 'finished' | null;
+  // 0-based sobre el maplist de la serie
+  mapNumber: number;
+  roundsPlayed: number;
+  half: number;
+  // 0 = tiempo reglamentario
+  overtime: number;
+  team1Score: number;
+  team2Score: number;
+  team1SeriesScore: number;
+  team2SeriesScore: number;
+  players: Record<string, LivePlayerStats>;
+  // rondas del mapa actual, en orden
+  rounds: RoundResult[];
+};
+
+function toNum(value: unknown): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function toLiveScoreboard(data: any): LiveScoreboard | null {
+  const live = data?.live;
+  if (!live) return null;
+  const mapNumber = toNum(live.mapNumber);
+  const rounds: RoundResult[] = Array.isArray(data.roundResults) ? data.roundResults : [];
   return {
-    estado: 'esperando_jugadores',
-    map: null,
-    team1: { name: 'Team A', players: [] },
-    team2: { name: 'Team B', players: [] },
-    queue: [],
-    mapPool: [...DEFAULT_MAP_POOL],
-    bannedMaps: [],
-    mapTurn: 'team1',
-    mapBanCount: 0,
-    leaderSelectionAt: null,
-    publishInProgress: false,
-    publishedAt: null,
-    updatedAt: serverTimestamp(),
+    status: live.status ?? null,
+    mapNumber,
+    roundsPlayed: toNum(live.roundsPlayed) || toNum(live.team1Score) + toNum(live.team2Score),
+    half: toNum(live.half) || 1,
+    overtime: toNum(live.overtime),
+    team1Score: toNum(live.team1Score),
+    team2Score: toNum(live.team2Score),
+    team1SeriesScore: toNum(live.team1SeriesScore),
+    team2SeriesScore: toNum(live.team2SeriesScore),
+    players: live.players ?? {},
+    rounds: rounds.filter((r) => r.mapNumber === mapNumber).sort((a, b) => a.round - b.round),
   };
 }
 
-function isValidEstado(estado: unknown): estado is MatchEstado {
-  return typeof estado === 'string' && VALID_ESTADOS.includes(estado as MatchEstado);
-}
+// Cada cuánto se refresca el estado del servidor mientras hay match en curso
+const SERVER_STATUS_POLL_MS = 15_000;
 
-function patchMissingFields(match: Partial<MatchDoc>): Partial<MatchDoc> {
-  const patch: Partial<MatchDoc> = {};
-  if (!isValidEstado(match.estado)) {
-    patch.estado = 'esperando_jugadores';
-  }
-  if (match.map === undefined) {
-    patch.map = null;
-  }
-  if (!Array.isArray(match.queue)) {
-    patch.queue = [];
-  }
-  if (!Array.isArray(match.mapPool)) {
-    patch.mapPool = [...DEFAULT_MAP_POOL];
-  }
-  if (!Array.isArray(match.bannedMaps)) {
-    patch.bannedMaps = [];
-  }
-  if (!match.team1 || typeof match.team1 !== 'object') {
-    patch.team1 = { name: 'Team A', players: [] };
-  } else {
-    const team1Patch: Partial<MatchDoc['team1']> = {};
-    if (!match.team1.name) team1Patch.name = 'Team A';
-    if (!Array.isArray(match.team1.players)) team1Patch.players = [];
-    if (Object.keys(team1Patch).length) {
-      patch.team1 = { ...(match.team1 as MatchDoc['team1']), ...team1Patch };
-    }
-  }
-  if (!match.team2 || typeof match.team2 !== 'object') {
-    patch.team2 = { name: 'Team B', players: [] };
-  } else {
-    const team2Patch: Partial<MatchDoc['team2']> = {};
-    if (!match.team2.name) team2Patch.name = 'Team B';
-    if (!Array.isArray(match.team2.players)) team2Patch.players = [];
-    if (Object.keys(team2Patch).length) {
-      patch.team2 = { ...(match.team2 as MatchDoc['team2']), ...team2Patch };
-    }
+// presence/{steamId} = último latido de cada jugador (lo escribe el backend)
+const PRESENCE_COLLECTION = 'presence';
+const HEARTBEAT_MS = 20_000;
+// Sin latir por más de esto se lo marca ausente (el backend lo saca de la cola a los 2 min)
+export const PRESENCE_AWAY_MS = 50_000;
+
+export type LobbySummary = {
+  id: string;
+  name: string;
+  estado: MatchEstado;
+  queueSize: number;
+  lobbySize: number;
+  players: string[];
+};
+
+/**
+ * Plazo de la fase actual del lobby (null si la fase no tiene).
+ * Cuando vence, el backend avanza solo (scheduler o /api/lobby/deadlines).
+ */
+export function phaseDeadline(match: MatchDoc | null): Timestamp | null {
+  switch (match?.estado) {
+    case 'confirmando_jugadores':
+      return match.readyCheckDeadline ?? null;
+    case 'seleccionando_lideres':
+      return match.leaderSelectionAt ?? null;
+    case 'armando_equipos':
+      return match.pickDeadline ?? null;
+    case 'seleccionando_mapa':
+      return match.vetoDeadline ?? null;
+    case 'eligiendo_lados':
+      return match.sideChoiceDeadline ?? null;
+    default:
+      return null;
   }
-  return patch;
+}
+
+// Jugadores para llenar la cola (los lobbies de antes de los modos son 5v5)
+export function lobbySizeOf(match: MatchDoc | null): number {
+  const perTeam = match?.playersPerTeam;
+  return (Number.isInteger(perTeam) && perTeam! > 0 ? perTeam! : 5) * 2;
 }
 
 function normalizeIds(ids: unknown): string[] {
@@ -145,331 +295,236 @@ function normalizeMatchIds(match: MatchDoc): MatchDoc {
       players: normalizeIds(match.team2?.players),
     },
     queue: normalizeIds(match.queue),
+    readyAccepted: normalizeIds(match.readyAccepted),
     unassigned: normalizeIds(match.unassigned),
     finalizeBy: normalizeIds(match.finalizeBy),
   };
 }
 
+function toLobbySummary(id: string, data: any): LobbySummary {
+  const match = normalizeMatchIds(data as MatchDoc);
+  return {
+    id,
+    name: typeof data?.name === 'string' && data.name ? data.name : id,
+    estado: match.estado,
+    queueSize: match.queue.length,
+    lobbySize: lobbySizeOf(match),
+    players: [...match.queue, ...match.team1.players, ...match.team2.players],
+  };
+}
+
 @Injectable({ providedIn: 'root' })
 export class MatchService {
-  readonly matchRef = doc(db, ...MATCH_DRAFT_PATH);
-  readonly currentRef = doc(db, ...MATCH_CURRENT_PATH);
-
   private readonly _match$ = new BehaviorSubject<MatchDoc | null>(null);
   readonly match$ = this._match$.asObservable();
 
+  private readonly _lobbies$ = new BehaviorSubject<LobbySummary[]>([]);
+  readonly lobbies$ = this._lobbies$.asObservable();
+
+  private readonly _lobbyId$ = new BehaviorSubject<string>(
+    localStorage.getItem(LOBBY_STORAGE_KEY) || DEFAULT_LOBBY_ID
+  );
+  readonly lobbyId$ = this._lobbyId$.asObservable();
+
+  private readonly _connection$ = new BehaviorSubject<ServerConnection | null>(null);
+  readonly connection$ = this._connection$.asObservable();
+  private connectionKey = '';
+
+  // Estado live del servidor asignado (null sin servidor o si falla la consulta)
+  readonly serverStatus$: Observable<ServerLiveStatus | null> = this.connection$.pipe(
+    switchMap((connection) =>
+      connection
+        ? timer(0, SERVER_STATUS_POLL_MS).pipe(switchMap(() => this.fetchStatus()))
+        : of(null)
+    ),
+    shareReplay({ bufferSize: 1, refCount: true })
+  );
+
+  // Scoreboard live del lobby elegido (null hasta que el servidor manda eventos)
+  readonly live$: Observable<LiveScoreboard | null> = this.lobbyId$.pipe(
+    switchMap(
+      (lobbyId) =>
+        new Observable<LiveScoreboard | null>((subscriber) => {
+          const unsubscribe = onSnapshot(
+            doc(db, LOBBIES_COLLECTION, lobbyId, 'live', 'current'),
+            (snap) => {
+              const live = toLiveScoreboard(snap.data());
+              this.zone.run(() => subscriber.next(live));
+            },
+            (err: FirestoreError) => {
+              console.error('Live onSnapshot error:', err);
+              this.zone.run(() => subscriber.next(null));
+            }
+          );
+          return () => unsubscribe();
+        })
+    ),
+    shareReplay({ bufferSize: 1, refCount: true })
+  );
+
+  // steamId -> último latido (ms) de los jugadores en la cola del lobby elegido
+  private readonly _presence$ = new BehaviorSubject<Record<string, number>>({});
+  readonly presence$ = this._presence$.asObservable();
+  private presenceKey = '';
+
   private unsub: (() => void) | null = null;
-  private selectingLeaders = false;
-  private publishing = false;
+  private unsubLobbies: (() => void) | null = null;
+  private unsubPresence: (() => void) | null = null;
+  private deadlineTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(private zone: NgZone) {}
 
+  get lobbyId(): string {
+    return this._lobbyId$.value;
+  }
+
   /**
    * Llamalo 1 vez (por ej. al entrar al Dashboard):
-   * - crea el singleton si no existe
-   * - se suscribe realtime al doc
+   * - pide al backend que cree el lobby default si no existe
+   * - se suscribe realtime a la lista de lobbies y al lobby elegido
+   *   (solo lectura: las transiciones van por /api/lobby/*)
+   * - arranca el latido de presencia (sin latidos el backend te saca de la cola)
    */
   async ensureAndSubscribe(): Promise<void> {
-    const snap = await getDoc(this.matchRef);
-    if (!snap.exists()) {
-      await setDoc(this.matchRef, initialMatch(), { merge: false });
-    } else {
-      const data = snap.data() as Partial<MatchDoc>;
-      const patch = patchMissingFields(data);
-      if (Object.keys(patch).length > 0) {
-        await setDoc(this.matchRef, patch as MatchDoc, { merge: true });
-      }
-    }
+    await apiPost('/api/lobby/ensure', { lobbyId: DEFAULT_LOBBY_ID }).catch((err) =>
+      console.error('lobby/ensure error:', err)
+    );
 
-    if (!this.unsub) {
-      this.unsub = onSnapshot(
-        this.matchRef,
+    if (!this.unsubLobbies) {
+      this.unsubLobbies = onSnapshot(
+        collection(db, LOBBIES_COLLECTION),
         (s) => {
-          const data = (s.data() as MatchDoc) ?? null;
-          const normalized = data ? normalizeMatchIds(data) : null;
+          const lobbies = s.docs.map((d) => toLobbySummary(d.id, d.data()));
           this.zone.run(() => {
-            this._match$.next(normalized);
+            this._lobbies$.next(lobbies);
           });
-          if (normalized) {
-            this.maybeSelectLeaders(normalized).catch(() => {});
-            this.maybePublishMatch(normalized).catch(() => {});
-          }
         },
-        (err: FirestoreError) => {
-          console.error('Match onSnapshot error:', err);
-          this.zone.run(() => {
-            this._match$.next(null);
-          });
-        }
+        (err: FirestoreError) => console.error('Lobbies onSnapshot error:', err)
       );
     }
-  }
 
-  async joinQueue(steamId: string): Promise<void> {
-    if (!steamId) return;
-
-    await runTransaction(db, async (tx) => {
-      const snap = await tx.get(this.matchRef);
-
-      if (!snap.exists()) {
-        tx.set(this.matchRef, initialMatch(), { merge: false });
-        return;
-      }
+    if (!this.unsub) this.subscribeLobby(this.lobbyId);
 
-      const match = snap.data() as MatchDoc;
+    if (!this.heartbeatTimer) {
+      this.heartbeat();
+      this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_MS);
+    }
+  }
 
-      const estado = isValidEstado(match.estado) ? match.estado : 'esperando_jugadores';
-      if (estado !== 'esperando_jugadores') {
-        throw new Error(`No se puede unirse: estado actual = ${estado}`);
-      }
+  private heartbeat(): void {
+    apiPost('/api/presence/heartbeat').catch((err) =>
+      console.error('presence/heartbeat error:', err)
+    );
+  }
 
-      const q = Array.isArray(match.queue) ? [...match.queue] : [];
-      if (q.includes(steamId)) return; // idempotente
+  /** Cambia el lobby que se muestra (y al que van las acciones) */
+  selectLobby(lobbyId: string): void {
+    if (lobbyId === this.lobbyId && this.unsub) return;
+    localStorage.setItem(LOBBY_STORAGE_KEY, lobbyId);
+    this._lobbyId$.next(lobbyId);
+    this.subscribeLobby(lobbyId);
+  }
 
-      if (q.length >= 10) {
-        throw new Error('La queue ya está completa (10 jugadores).');
-      }
+  /** Abre un lobby nuevo (entrás a su cola) y lo selecciona */
+  async createLobby(name: string): Promise<void> {
+    const r = await apiPost<{ result: string }>('/api/lobby/create', { name });
+    this.selectLobby(r.result);
+  }
 
-      q.push(steamId);
+  private subscribeLobby(lobbyId: string): void {
+    if (this.unsub) this.unsub();
+    this._match$.next(null);
 
-      const update: Partial<MatchDoc> = {
-        queue: q,
-        updatedAt: serverTimestamp(),
-      };
+    this.unsub = onSnapshot(
+      doc(db, LOBBIES_COLLECTION, lobbyId),
+      (s) => {
+        // El lobby se cerró (quedó vacío): volver al default
+        if (!s.exists() && lobbyId !== DEFAULT_LOBBY_ID) {
+          this.zone.run(() => this.selectLobby(DEFAULT_LOBBY_ID));
+          return;
+        }
 
-      if (q.length === 10) {
-        update.estado = 'seleccionando_lideres';
-        update.team1 = { name: 'Team A', players: [] };
-        update.team2 = { name: 'Team B', players: [] };
-        update.unassigned = [];
-        update.turn = 'team1';
-        update.leaderSelectionAt = Timestamp.fromMillis(Date.now() + 10_000);
+        const data = (s.data() as MatchDoc) ?? null;
+        const normalized = data ? normalizeMatchIds(data) : null;
+        this.zone.run(() => {
+          this._match$.next(normalized);
+        });
+        this.scheduleDeadline(normalized);
+        this.refreshConnection(lobbyId, normalized);
+        this.subscribePresence(normalized?.queue ?? []);
+      },
+      (err: FirestoreError) => {
+        console.error('Match onSnapshot error:', err);
+        this.zone.run(() => {
+          this._match$.next(null);
+        });
       }
+    );
+  }
 
-      if (!isValidEstado(match.estado) && !update.estado) {
-        update.estado = 'esperando_jugadores';
-      }
-      tx.update(this.matchRef, update);
-    });
+  // Todas las acciones van al lobby seleccionado
+  private lobbyPost<T>(path: string, body: Record<string, unknown> = {}): Promise<T> {
+    return apiPost<T>(path, { ...body, lobbyId: this.lobbyId });
   }
 
-  async leaveQueue(steamId: string): Promise<void> {
+  async joinQueue(steamId: string): Promise<void> {
     if (!steamId) return;
+    await this.lobbyPost('/api/lobby/join');
+  }
 
-    await runTransaction(db, async (tx) => {
-      const snap = await tx.get(this.matchRef);
-      if (!snap.exists()) return;
+  async leaveQueue(steamId: string): Promise<void> {
+    if (!steamId) return;
+    await this.lobbyPost('/api/lobby/leave');
+  }
 
-      const match = snap.data() as MatchDoc;
-      if (match.estado !== 'esperando_jugadores') {
-        // por ahora solo permitimos salir cuando está esperando
-        return;
-      }
+  /**
+   * Pedido de premade (modo balanced): quedan juntos si el otro también lo pidió.
+   * withSteamId = null cancela el pedido.
+   */
+  async setPremade(withSteamId: string | null): Promise<void> {
+    await this.lobbyPost('/api/lobby/premade', { with: withSteamId ?? '' });
+  }
 
-      const q = Array.isArray(match.queue) ? [...match.queue] : [];
-      const next = q.filter((x) => x !== steamId);
+  /**
+   * "Quiero ser líder" (cuenta con la estrategia volunteers).
+   */
+  async setCaptainVolunteer(want: boolean): Promise<void> {
+    await this.lobbyPost('/api/lobby/captain', { want });
+  }
 
-      tx.update(this.matchRef, {
-        queue: next,
-        updatedAt: serverTimestamp(),
-      });
-    });
+  /** Ready check: confirmo que estoy (para rechazar, salir de la cola) */
+  async acceptReadyCheck(): Promise<void> {
+    await this.lobbyPost('/api/lobby/ready');
   }
 
   /**
-   * Pick REAL por transacción:
+   * Pick (lo valida el backend):
    * - solo en estado armando_equipos
    * - solo si sos líder del team que tiene el turno
-   * - solo si el jugador está en unassigned (o fallback queue si todavía no existe unassigned)
-   * - alterna el turno
-   * - cuando ambos equipos llegan a 5 -> pasa a seleccionando_mapa
+   * - cuando ambos equipos se completan -> pasa a seleccionando_mapa
    */
   async pickPlayer(mySteamId: string, pickedSteamId: string): Promise<void> {
     if (!mySteamId || !pickedSteamId) return;
-
-    await runTransaction(db, async (tx) => {
-      const snap = await tx.get(this.matchRef);
-      if (!snap.exists()) throw new Error('Match no existe.');
-
-      const match = snap.data() as MatchDoc;
-
-      if (match.estado !== 'armando_equipos') {
-        throw new Error(`No se puede pickear: estado = ${match.estado}`);
-      }
-
-      const team1 = match.team1?.players ? [...match.team1.players] : [];
-      const team2 = match.team2?.players ? [...match.team2.players] : [];
-      const leaderA = team1[0] ?? null;
-      const leaderB = team2[0] ?? null;
-
-      if (!leaderA || !leaderB) {
-        throw new Error('No hay líderes definidos todavía.');
-      }
-
-      const turn: 'team1' | 'team2' = (match.turn as any) || 'team1';
-
-      // Validar que sos el líder y es tu turno
-      if (turn === 'team1') {
-        if (mySteamId !== leaderA) throw new Error('No sos el líder de Team A o no es tu turno.');
-      } else {
-        if (mySteamId !== leaderB) throw new Error('No sos el líder de Team B o no es tu turno.');
-      }
-
-      // Disponibles: unassigned (si existe) sino queue
-      const unassigned = Array.isArray(match.unassigned)
-        ? [...match.unassigned]
-        : Array.isArray(match.queue)
-          ? [...match.queue]
-          : [];
-
-      if (!unassigned.includes(pickedSteamId)) {
-        throw new Error('Ese jugador ya no está disponible para pick.');
-      }
-
-      // No se puede pickearse a uno mismo si sos líder (normalmente no debería estar en unassigned)
-      if (pickedSteamId === leaderA || pickedSteamId === leaderB) {
-        throw new Error('No podés pickear a un líder.');
-      }
-
-      // No duplicados
-      if (team1.includes(pickedSteamId) || team2.includes(pickedSteamId)) {
-        throw new Error('Ese jugador ya está en un equipo.');
-      }
-
-      // Límite 5 por equipo
-      if (turn === 'team1' && team1.length >= 5) throw new Error('Team A ya está completo.');
-      if (turn === 'team2' && team2.length >= 5) throw new Error('Team B ya está completo.');
-
-      // Aplicar pick
-      const nextUnassigned = unassigned.filter((x) => x !== pickedSteamId);
-
-      let nextTeam1 = team1;
-      let nextTeam2 = team2;
-
-      if (turn === 'team1') nextTeam1 = [...team1, pickedSteamId];
-      else nextTeam2 = [...team2, pickedSteamId];
-
-      // Alternar turno (si el otro equipo ya está completo, igual alternamos; si querés, lo ajustamos después)
-      const nextTurn: 'team1' | 'team2' = turn === 'team1' ? 'team2' : 'team1';
-
-      // ¿Se completaron ambos equipos?
-      const bothFull = nextTeam1.length === 5 && nextTeam2.length === 5;
-
-      const update: any = {
-        team1: { ...(match.team1 ?? { name: 'Team A' }), players: nextTeam1 },
-        team2: { ...(match.team2 ?? { name: 'Team B' }), players: nextTeam2 },
-        unassigned: nextUnassigned,
-        turn: nextTurn,
-        updatedAt: serverTimestamp(),
-      };
-
-      if (bothFull) {
-        update.estado = 'seleccionando_mapa';
-        update.queue = []; // ya no se usa queue en esta fase
-        update.unassigned = [];
-        update.mapTurn = 'team1';
-        update.mapBanCount = 0;
-        update.bannedMaps = [];
-        update.mapPool = Array.isArray(match.mapPool)
-          ? [...match.mapPool]
-          : [...DEFAULT_MAP_POOL];
-      }
-
-      tx.update(this.matchRef, update);
-    });
+    await this.lobbyPost('/api/lobby/pick', { steamId: pickedSteamId });
   }
 
   /**
-   * Baneo de mapas:
+   * Veto de mapas, ban o pick según el paso (lo valida el backend):
    * - solo en estado seleccionando_mapa
    * - solo líder del turno
-   * - no permite banear ya baneados
-   * - cuando queda 1 mapa -> se define match.map
+   * - al terminar los pasos -> se define match.maplist y arranca el match
    */
-  async banMap(mySteamId: string, mapName: string): Promise<void> {
+  async vetoMap(mySteamId: string, mapName: string): Promise<void> {
     if (!mySteamId || !mapName) return;
+    await this.lobbyPost('/api/lobby/veto', { map: mapName });
+  }
 
-    const banOrder: Array<'team1' | 'team2'> = [
-      'team1',
-      'team1',
-      'team2',
-      'team2',
-      'team1',
-      'team2',
-    ];
-
-    await runTransaction(db, async (tx) => {
-      const snap = await tx.get(this.matchRef);
-      if (!snap.exists()) throw new Error('Match no existe.');
-
-      const match = snap.data() as MatchDoc;
-
-      if (match.estado !== 'seleccionando_mapa') {
-        throw new Error(`No se puede banear: estado = ${match.estado}`);
-      }
-
-      const team1 = match.team1?.players ?? [];
-      const team2 = match.team2?.players ?? [];
-      const leaderA = team1[0] ?? null;
-      const leaderB = team2[0] ?? null;
-
-      if (!leaderA || !leaderB) {
-        throw new Error('No hay líderes definidos.');
-      }
-
-      const banned = Array.isArray(match.bannedMaps) ? [...match.bannedMaps] : [];
-      const banIndex = banned.length;
-      const expectedTurn = banOrder[banIndex];
-
-      if (!expectedTurn) {
-        throw new Error('No hay más mapas para banear.');
-      }
-
-      if (expectedTurn === 'team1' && mySteamId !== leaderA) {
-        throw new Error('No sos el líder de Team A o no es tu turno.');
-      }
-      if (expectedTurn === 'team2' && mySteamId !== leaderB) {
-        throw new Error('No sos el líder de Team B o no es tu turno.');
-      }
-
-      const pool = Array.isArray(match.mapPool) && match.mapPool.length > 0
-        ? [...match.mapPool]
-        : [...DEFAULT_MAP_POOL];
-
-      if (!pool.includes(mapName)) {
-        throw new Error('Ese mapa no está en el pool.');
-      }
-
-      if (banned.includes(mapName)) {
-        throw new Error('Ese mapa ya está baneado.');
-      }
-
-      const nextBanned = [...banned, mapName];
-      const remaining = pool.filter((m) => !nextBanned.includes(m));
-
-      if (remaining.length === 0) {
-        throw new Error('No quedan mapas disponibles.');
-      }
-
-      const banCount = banIndex + 1;
-      const nextTurn = banOrder[banIndex + 1] ?? null;
-
-      const update: any = {
-        bannedMaps: nextBanned,
-        mapTurn: nextTurn,
-        mapBanCount: banCount,
-        mapPool: pool,
-        updatedAt: serverTimestamp(),
-      };
-
-      if (remaining.length === 1) {
-        update.map = remaining[0];
-      }
-
-      tx.update(this.matchRef, update);
-    });
-
-    await this.maybePublishMatch();
+  /**
+   * Lado del mapa pendiente (solo el líder del equipo que elige).
+   */
+  async chooseSide(side: SideChoice): Promise<void> {
+    await this.lobbyPost('/api/lobby/side', { side });
   }
 
   /**
@@ -479,179 +534,127 @@ export class MatchService {
    */
   async requestFinalizeMatch(mySteamId: string): Promise<void> {
     if (!mySteamId) return;
-
-    await runTransaction(db, async (tx) => {
-      const snap = await tx.get(this.matchRef);
-      if (!snap.exists()) throw new Error('Match no existe.');
-
-      const match = snap.data() as MatchDoc;
-
-      if (match.estado !== 'en_curso') {
-        throw new Error(`No se puede finalizar: estado = ${match.estado}`);
-      }
-
-      const team1 = match.team1?.players ?? [];
-      const team2 = match.team2?.players ?? [];
-      const leaderA = team1[0] ?? null;
-      const leaderB = team2[0] ?? null;
-
-      if (!leaderA || !leaderB) {
-        throw new Error('No hay líderes definidos.');
-      }
-
-      if (mySteamId !== leaderA && mySteamId !== leaderB) {
-        throw new Error('Solo los líderes pueden finalizar el match.');
-      }
-
-      const finalizedBy = Array.isArray(match.finalizeBy) ? [...match.finalizeBy] : [];
-      if (finalizedBy.includes(mySteamId)) return;
-
-      finalizedBy.push(mySteamId);
-
-      const bothConfirmed = finalizedBy.includes(leaderA) && finalizedBy.includes(leaderB);
-
-      if (bothConfirmed) {
-        tx.set(this.matchRef, initialMatch(), { merge: false });
-        tx.set(this.currentRef, initialMatch(), { merge: false });
-        return;
-      }
-
-      tx.update(this.matchRef, {
-        finalizeBy: finalizedBy,
-        updatedAt: serverTimestamp(),
-      });
-    });
+    await this.lobbyPost('/api/lobby/finalize');
   }
 
-  async cancelMatch(): Promise<void> {
-    const r = await fetch('/api/match/cancel', { method: 'POST' });
+  /**
+   * Cancelación (solo líderes del match o admin), queda en el historial con el motivo:
+   * - 401: sesión inválida/expirada
+   * - 403: no tenés permiso
+   */
+  async cancelMatch(reason = ''): Promise<void> {
+    const r = await apiFetch('/api/match/cancel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason, lobbyId: this.lobbyId }),
+    });
     if (!r.ok) {
       const t = await r.text().catch(() => '');
+      if (r.status === 401) {
+        throw new Error('Tu sesión expiró. Volvé a iniciar sesión para cancelar el match.');
+      }
+      if (r.status === 403) {
+        throw new Error(t.trim() || 'No tenés permiso para cancelar el match.');
+      }
       throw new Error(`No se pudo cancelar el match (${r.status}) ${t}`.trim());
     }
-
-    await setDoc(this.matchRef, initialMatch(), { merge: false });
   }
 
-  private async maybeSelectLeaders(match?: MatchDoc): Promise<void> {
-    if (this.selectingLeaders) return;
-    const current = match ?? this._match$.getValue();
-    if (!current) return;
-    if (current.estado !== 'seleccionando_lideres') return;
-
-    const selectionAt = current.leaderSelectionAt;
-    if (!selectionAt) return;
-    if (selectionAt.toMillis() > Date.now()) return;
-
-    const queue = Array.isArray(current.queue) ? current.queue : [];
-    if (queue.length !== 10) return;
-
-    this.selectingLeaders = true;
-
-    try {
-      await runTransaction(db, async (tx) => {
-        const snap = await tx.get(this.matchRef);
-        if (!snap.exists()) return;
-        const cur = snap.data() as MatchDoc;
-        if (cur.estado !== 'seleccionando_lideres') return;
-
-        const curQueue = Array.isArray(cur.queue) ? [...cur.queue] : [];
-        if (curQueue.length !== 10) return;
-
-        const shuffled = [...curQueue].sort(() => Math.random() - 0.5);
-        const leaderA = shuffled[0];
-        const leaderB = shuffled[1];
-
-        const unassigned = curQueue.filter((id) => id !== leaderA && id !== leaderB);
-
-        tx.update(this.matchRef, {
-          estado: 'armando_equipos',
-          team1: { name: 'Team A', players: [leaderA] },
-          team2: { name: 'Team B', players: [leaderB] },
-          unassigned,
-          turn: 'team1',
-          leaderSelectionAt: null,
-          updatedAt: serverTimestamp(),
-        });
-      });
-    } finally {
-      this.selectingLeaders = false;
-    }
+  /**
+   * Cuando vence el plazo de la fase le avisa al backend para no esperar al scheduler
+   * (el backend valida el horario, así que varios clientes pueden pedirlo).
+   */
+  private scheduleDeadline(match: MatchDoc | null): void {
+    if (this.deadlineTimer) clearTimeout(this.deadlineTimer);
+    this.deadlineTimer = null;
+
+    const dueAt = phaseDeadline(match);
+    if (!dueAt) return;
+
+    const delay = Math.max(0, dueAt.toMillis() - Date.now());
+    this.deadlineTimer = setTimeout(() => {
+      this.deadlineTimer = null;
+      this.lobbyPost('/api/lobby/deadlines').catch(() => {});
+    }, delay);
   }
 
-  private async maybePublishMatch(match?: MatchDoc): Promise<void> {
-    if (this.publishing) return;
-    const current = match ?? this._match$.getValue();
-    if (!current) return;
-    if (current.publishInProgress || current.publishedAt) return;
-    if (current.estado !== 'seleccionando_mapa') return;
-
-    const t1 = current.team1?.players ?? [];
-    const t2 = current.team2?.players ?? [];
-    if (t1.length !== 5 || t2.length !== 5) return;
-    if (!current.map) return;
-
-    this.publishing = true;
-
-    try {
-      const result = await runTransaction(db, async (tx) => {
-        const snap = await tx.get(this.matchRef);
-        if (!snap.exists()) return null;
-
-        const cur = snap.data() as MatchDoc;
-        if (cur.publishInProgress || cur.publishedAt) return null;
-        if (cur.estado !== 'seleccionando_mapa') return null;
-
-        const curT1 = cur.team1?.players ?? [];
-        const curT2 = cur.team2?.players ?? [];
-        if (curT1.length !== 5 || curT2.length !== 5) return null;
-        if (!cur.map) return null;
-
-        tx.update(this.matchRef, {
-          publishInProgress: true,
-          updatedAt: serverTimestamp(),
-        });
+  /**
+   * Pide la conexión al servidor asignado cuando el match arranca (cambia serverId).
+   */
+  private refreshConnection(lobbyId: string, match: MatchDoc | null): void {
+    const serverId = match?.estado === 'en_curso' ? (match.serverId ?? '') : '';
+    const key = serverId ? `${lobbyId}:${match?.matchId ?? ''}:${serverId}` : '';
+    if (key === this.connectionKey) return;
+    this.connectionKey = key;
+
+    if (!key) {
+      this._connection$.next(null);
+      return;
+    }
 
-        return cur;
+    const query = `lobbyId=${encodeURIComponent(lobbyId)}`;
+    apiGet<ServerConnection>(`/api/server/connection?${query}`)
+      .then((connection) => {
+        if (this.connectionKey !== key) return;
+        this.zone.run(() => this._connection$.next(connection));
+      })
+      .catch((err) => {
+        console.error('server/connection error:', err);
+        if (this.connectionKey === key) this.connectionKey = '';
       });
+  }
 
-      if (!result) return;
-
-      const publishPayload: MatchDoc = {
-        estado: result.estado,
-        map: result.map,
-        team1: result.team1,
-        team2: result.team2,
-        queue: [],
-        mapPool: result.mapPool ?? [...DEFAULT_MAP_POOL],
-        bannedMaps: result.bannedMaps ?? [],
-        mapTurn: result.mapTurn ?? null,
-        mapBanCount: result.mapBanCount ?? 0,
-        unassigned: result.unassigned ?? [],
-        turn: result.turn ?? 'team1',
-        updatedAt: serverTimestamp(),
-      };
-
-      await setDoc(this.currentRef, publishPayload, { merge: false });
-
-      await setDoc(
-        this.matchRef,
-        {
-          publishInProgress: false,
-          publishedAt: serverTimestamp(),
-          estado: 'en_curso',
-          updatedAt: serverTimestamp(),
-        } as Partial<MatchDoc>,
-        { merge: true }
-      );
-    } finally {
-      this.publishing = false;
-    }
+  /**
+   * Latidos de los jugadores en cola (para marcar ausentes). Se re-suscribe si cambia la cola.
+   */
+  private subscribePresence(queue: string[]): void {
+    const key = [...queue].sort().join(',');
+    if (key === this.presenceKey) return;
+    this.presenceKey = key;
+
+    if (this.unsubPresence) this.unsubPresence();
+    this.unsubPresence = null;
+    this._presence$.next({});
+    if (queue.length === 0) return;
+
+    this.unsubPresence = onSnapshot(
+      query(collection(db, PRESENCE_COLLECTION), where(documentId(), 'in', queue)),
+      (s) => {
+        const presence: Record<string, number> = {};
+        for (const d of s.docs) {
+          // los que entraron por Discord no laten: no se marcan ausentes
+          if (d.get('via') === 'discord') continue;
+          const lastSeen = d.get('lastSeenAt') as Timestamp | null;
+          if (lastSeen) presence[d.id] = lastSeen.toMillis();
+        }
+        this.zone.run(() => this._presence$.next(presence));
+      },
+      (err: FirestoreError) => console.error('Presence onSnapshot error:', err)
+    );
+  }
+
+  private fetchStatus(): Observable<ServerLiveStatus | null> {
+    const query = `lobbyId=${encodeURIComponent(this.lobbyId)}`;
+    return from(apiGet<ServerLiveStatus>(`/api/server/status?${query}`)).pipe(
+      catchError(() => of(null))
+    );
   }
 
   dispose(): void {
     if (this.unsub) this.unsub();
     this.unsub = null;
+    if (this.unsubLobbies) this.unsubLobbies();
+    this.unsubLobbies = null;
+    if (this.unsubPresence) this.unsubPresence();
+    this.unsubPresence = null;
+    this.presenceKey = '';
+    if (this.deadlineTimer) clearTimeout(this.deadlineTimer);
+    this.deadlineTimer = null;
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+    this.connectionKey = '';
+    this._connection$.next(null);
+    this._presence$.next({});
     this._match$.next(null);
   }
 }
@@ -0,0 +1,244 @@
+import { AsyncPipe, DatePipe } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { doc, getDoc } from 'firebase/firestore';
+import { switchMap } from 'rxjs';
+import {
+  AdminService,
+  DiscordEvent,
+  DiscordWebhook,
+  OffenseReason,
+  PlayerPenalty,
+  PlayerSlot,
+} from '../../core/admin/admin.service';
+import { MatchDoc, MatchService } from '../../core/match/match.service';
+import { LobbyListComponent } from '../dashboard/lobby-list.component';
+import { db } from '../../core/firebase/firebase';
+
+type PlayerRow = { steamId: string; slot: Exclude<PlayerSlot, 'out'> };
+
+const DISCORD_EVENT_LABELS: Record<DiscordEvent, string> = {
+  queue_milestone: 'Cola (milestones)',
+  queue_full: 'Cola llena',
+  leaders_chosen: 'Líderes',
+  map_decided: 'Mapas + connect',
+  match_started: 'Arrancó',
+  match_result: 'Resultado',
+  match_cancelled: 'Cancelado',
+};
+
+// Webhook en edición (milestones como texto "6, 8")
+type WebhookForm = Omit<DiscordWebhook, 'queueMilestones'> & { milestones: string };
+
+const OFFENSE_LABELS: Record<OffenseReason, string> = {
+  ready_check_failed: 'No aceptó el ready check',
+  left_draft: 'Se fue en el draft',
+  abandoned_match: 'Abandonó el match',
+};
+
+@Component({
+  standalone: true,
+  selector: 'app-admin',
+  imports: [AsyncPipe, DatePipe, RouterLink, LobbyListComponent],
+  templateUrl: './admin.component.html',
+  styleUrl: './admin.component.css',
+})
+export class AdminComponent {
+  private matchSvc = inject(MatchService);
+  private adminSvc = inject(AdminService);
+
+  match$ = this.matchSvc.match$;
+  lobbyId$ = this.matchSvc.lobbyId$;
+  // startInProgress / startError del match publicado del lobby elegido
+  live$ = this.matchSvc.lobbyId$.pipe(switchMap((id) => this.adminSvc.liveStart$(id)));
+
+  busy = false;
+  err = '';
+  info = '';
+  mapPoolText = '';
+  penalties: PlayerPenalty[] = [];
+  webhooks: WebhookForm[] = [];
+  readonly discordEvents = Object.keys(DISCORD_EVENT_LABELS) as DiscordEvent[];
+  private names = new Map<string, string>();
+
+  constructor() {
+    this.matchSvc.ensureAndSubscribe().catch((e) => console.error('ensureAndSubscribe error', e));
+    void this.loadPenalties();
+    void this.loadWebhooks();
+  }
+
+  get lobbyId(): string {
+    return this.matchSvc.lobbyId;
+  }
+
+  /** Jugadores del draft por lugar (cola / disponibles para pick / equipos) */
+  players(match: MatchDoc): PlayerRow[] {
+    const rows: PlayerRow[] = [];
+    const seen = new Set<string>();
+    const add = (ids: string[] | undefined, slot: PlayerRow['slot']) => {
+      for (const steamId of ids ?? []) {
+        if (seen.has(steamId)) continue;
+        seen.add(steamId);
+        rows.push({ steamId, slot });
+      }
+    };
+    add(match.team1?.players, 'team1');
+    add(match.team2?.players, 'team2');
+    add(match.queue, 'queue');
+    add(match.unassigned, 'queue');
+    return rows;
+  }
+
+  slotLabel(slot: PlayerRow['slot'], match: MatchDoc): string {
+    if (slot === 'team1') return match.team1?.name ?? 'Team A';
+    if (slot === 'team2') return match.team2?.name ?? 'Team B';
+    return match.estado === 'armando_equipos' ? 'Disponible' : 'Cola';
+  }
+
+  /** personaName de steamProfiles (se carga una vez por jugador) */
+  name(steamId: string): string {
+    const cached = this.names.get(steamId);
+    if (cached !== undefined) return cached || steamId;
+
+    this.names.set(steamId, '');
+    getDoc(doc(db, 'steamProfiles', steamId))
+      .then((snap) => {
+        const personaName = snap.get('personaName');
+        if (typeof personaName === 'string') this.names.set(steamId, personaName);
+      })
+      .catch(() => {});
+    return steamId;
+  }
+
+  poolPlaceholder(match: MatchDoc): string {
+    return (match.mapPool ?? []).join('\n');
+  }
+
+  private async run(action: () => Promise<unknown>, done = ''): Promise<void> {
+    if (this.busy) return;
+    try {
+      this.busy = true;
+      this.err = '';
+      this.info = '';
+      await action();
+      this.info = done;
+    } catch (e: any) {
+      this.err = e?.message ?? String(e);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  onMove(steamId: string, to: PlayerSlot): Promise<void> {
+    return this.run(() => this.adminSvc.movePlayer(this.lobbyId, steamId, to));
+  }
+
+  onReset(): Promise<void> {
+    if (!confirm('¿Resetear el lobby? El match actual queda cancelado en el historial.')) {
+      return Promise.resolve();
+    }
+    return this.run(() => this.adminSvc.resetLobby(this.lobbyId), 'Lobby reseteado');
+  }
+
+  onStart(): Promise<void> {
+    return this.run(async () => {
+      const result = await this.adminSvc.startMatch(this.lobbyId);
+      if (!result.ok) throw new Error(result.error ?? `No arrancó: ${result.reason}`);
+    }, 'Match arrancado');
+  }
+
+  onClearStart(): Promise<void> {
+    return this.run(() => this.adminSvc.clearStart(this.lobbyId), 'Start destrabado');
+  }
+
+  onSaveMapPool(): Promise<void> {
+    const maps = this.mapPoolText
+      .split(/[\s,]+/)
+      .map((m) => m.trim())
+      .filter((m) => m.length > 0);
+    return this.run(async () => {
+      await this.adminSvc.setMapPool(this.lobbyId, maps);
+      this.mapPoolText = '';
+    }, 'Pool actualizado');
+  }
+
+  onResetMapPool(): Promise<void> {
+    return this.run(() => this.adminSvc.setMapPool(this.lobbyId, null), 'Pool del modo');
+  }
+
+  eventLabel(event: DiscordEvent): string {
+    return DISCORD_EVENT_LABELS[event];
+  }
+
+  private toForms(webhooks: DiscordWebhook[]): WebhookForm[] {
+    return webhooks.map(({ queueMilestones, ...hook }) => ({
+      ...hook,
+      events: [...hook.events],
+      milestones: queueMilestones.join(', '),
+    }));
+  }
+
+  loadWebhooks(): Promise<void> {
+    return this.run(async () => {
+      this.webhooks = this.toForms(await this.adminSvc.getDiscordWebhooks());
+    });
+  }
+
+  addWebhook(): void {
+    this.webhooks = [
+      ...this.webhooks,
+      { name: '', url: '', events: [...this.discordEvents], milestones: '8' },
+    ];
+  }
+
+  removeWebhook(idx: number): void {
+    this.webhooks = this.webhooks.filter((_, i) => i !== idx);
+  }
+
+  toggleEvent(hook: WebhookForm, event: DiscordEvent, on: boolean): void {
+    hook.events = on ? [...hook.events, event] : hook.events.filter((e) => e !== event);
+  }
+
+  onSaveWebhooks(): Promise<void> {
+    const webhooks: DiscordWebhook[] = this.webhooks.map(({ milestones, ...hook }) => ({
+      ...hook,
+      queueMilestones: milestones
+        .split(/[\s,]+/)
+        .filter((m) => m.length > 0)
+        .map(Number),
+    }));
+    return this.run(async () => {
+      this.webhooks = this.toForms(await this.adminSvc.saveDiscordWebhooks(webhooks));
+    }, 'Webhooks guardados');
+  }
+
+  offenseLabel(reason: OffenseReason): string {
+    return OFFENSE_LABELS[reason] ?? reason;
+  }
+
+  isActive(penalty: PlayerPenalty): boolean {
+    return !!penalty.cooldownUntil && Date.parse(penalty.cooldownUntil) > Date.now();
+  }
+
+  loadPenalties(): Promise<void> {
+    return this.run(async () => {
+      this.penalties = await this.adminSvc.listPenalties();
+    });
+  }
+
+  onReport(steamId: string): Promise<void> {
+    const note = prompt('Nota del reporte (opcional)');
+    if (note === null) return Promise.resolve();
+    return this.run(async () => {
+      await this.adminSvc.reportOffense(this.lobbyId, steamId, note.trim() || null);
+      this.penalties = await this.adminSvc.listPenalties();
+    }, 'Abandono reportado');
+  }
+
+  onPardon(steamId: string, offenseId: string | null): Promise<void> {
+    return this.run(async () => {
+      await this.adminSvc.pardon(steamId, offenseId);
+      this.penalties = await this.adminSvc.listPenalties();
+    }, 'Penalización perdonada');
+  }
+}
@@ -1,12 +1,16 @@
 import { ChangeDetectorRef, Component, DestroyRef, inject, NgZone } from '@angular/core';
-import { Router } from '@angular/router';
-import { AsyncPipe } from '@angular/common';
+import { Router, RouterLink } from '@angular/router';
+import { AsyncPipe, DatePipe } from '@angular/common';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { from } from 'rxjs';
 import { doc, getDoc, onSnapshot, serverTimestamp, setDoc } from 'firebase/firestore';
 
 import { AuthService } from '../../core/auth/auth.service';
-import { MatchService, MatchDoc } from '../../core/match/match.service';
+import { MatchService, MatchDoc, ServerLiveStatus } from '../../core/match/match.service';
+import { lobbySizeOf } from '../../core/match/match.service';
 import { MatchBoardComponent } from './match-board.component';
+import { MatchHistoryComponent } from './match-history.component';
+import { LobbyListComponent } from './lobby-list.component';
 import { db } from '../../core/firebase/firebase';
 
 type SteamMe = {
@@ -16,18 +20,17 @@ type SteamMe = {
   profileUrl: string;
 };
 
-type ServerConnection = {
-  host: string;
-  port: number;
-  spectatePort: number;
-  connectUrl: string;
-  spectateUrl: string;
-};
-
 @Component({
   standalone: true,
   selector: 'app-dashboard',
-  imports: [AsyncPipe, MatchBoardComponent],
+  imports: [
+    AsyncPipe,
+    DatePipe,
+    RouterLink,
+    MatchBoardComponent,
+    MatchHistoryComponent,
+    LobbyListComponent,
+  ],
   templateUrl: './dashboard.component.html',
   styleUrls: ['./dashboard.component.css'],
 })
@@ -40,23 +43,25 @@ export class DashboardComponent {
   private cdr = inject(ChangeDetectorRef);
 
   watchMatch = false;
-  readonly serverConnection: ServerConnection = {
-    host: '45.235.98.222',
-    port: 27159,
-    spectatePort: 27159,
-    connectUrl: 'steam://connect/45.235.98.222:27159',
-    spectateUrl: 'steam://connect/45.235.98.222:27159',
-  };
 
   // Steam cache
   steamErr = '';
   steamRefreshErr = '';
+  // p.ej. penalizado por abandonar: el backend manda cuánto falta
+  joinErr = '';
+  discordCode: { code: string; expiresAt: string } | null = null;
+  discordErr = '';
   steamRefreshBusy = false;
   private currentUserSteamId: string | null = null;
   private currentUserUnsubscribe: (() => void) | null = null;
   myProfile: SteamMe | null = null;
 
   match$ = this.matchSvc.match$;
+  // servidor asignado al match del lobby (null hasta que arranca)
+  connection$ = this.matchSvc.connection$;
+  serverStatus$ = this.matchSvc.serverStatus$;
+  // link al panel de admin (claim admin del token)
+  isAdmin$ = from(this.auth.isAdminOnce());
 
   constructor() {
     this.destroyRef.onDestroy(() => {
@@ -176,8 +181,18 @@ export class DashboardComponent {
     await this.fetchAndStoreProfile(steamId);
   }
 
-  get activeServerConnection(): ServerConnection {
-    return this.serverConnection;
+  // Badge del servidor: online/offline, jugadores y ping (null = todavía consultando)
+  statusLabel(status: ServerLiveStatus | null): string {
+    if (!status) return 'Consultando…';
+    if (!status.online) return 'Offline';
+    const ping = status.latencyMs !== null ? ` · ${status.latencyMs} ms` : '';
+    return `Online · ${status.players}/${status.maxPlayers}${ping}`;
+  }
+
+  statusPlayers(status: ServerLiveStatus | null): string {
+    if (!status?.online) return '';
+    const names = status.playerNames.length ? status.playerNames.join(', ') : 'sin jugadores';
+    return `${status.map ?? '—'}: ${names}`;
   }
 
   async refreshMyProfile(mySteamId: string | null): Promise<void> {
@@ -202,6 +217,10 @@ export class DashboardComponent {
     }
   }
 
+  lobbySize(match: MatchDoc | null): number {
+    return lobbySizeOf(match);
+  }
+
   myStatus(match: MatchDoc | null, mySteamId: string | null): 'fuera' | 'cola' | 'team1' | 'team2' {
     if (!match || !mySteamId) return 'fuera';
     if ((match.team1?.players ?? []).includes(mySteamId)) return 'team1';
@@ -212,7 +231,12 @@ export class DashboardComponent {
 
   async join(match: MatchDoc | null, mySteamId: string | null) {
     if (!match || !mySteamId) return;
-    await this.matchSvc.joinQueue(mySteamId);
+    try {
+      this.joinErr = '';
+      await this.matchSvc.joinQueue(mySteamId);
+    } catch (e: any) {
+      this.joinErr = e?.message ?? String(e);
+    }
   }
 
   async leave(match: MatchDoc | null, mySteamId: string | null) {
@@ -220,6 +244,15 @@ export class DashboardComponent {
     await this.matchSvc.leaveQueue(mySteamId);
   }
 
+  async linkDiscord() {
+    try {
+      this.discordErr = '';
+      this.discordCode = await this.auth.createDiscordLinkCode();
+    } catch (e: any) {
+      this.discordErr = e?.message ?? String(e);
+    }
+  }
+
   toggleWatch() {
     this.watchMatch = !this.watchMatch;
   }
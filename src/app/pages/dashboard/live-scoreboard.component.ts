@@ -0,0 +1,85 @@
+import { Component, Input } from '@angular/core';
+import { LiveScoreboard, MatchDoc, RoundResult } from '../../core/match/match.service';
+import { RoundWinReason } from '../../core/match/match.service';
+
+type ScoreRow = {
+  steamId: string;
+  name: string;
+  kills: number;
+  deaths: number;
+  assists: number;
+  adr: number;
+  hsPct: number;
+};
+
+const ROUND_REASON_LABELS: Record<RoundWinReason, string> = {
+  bomb_exploded: 'Explotó la bomba',
+  bomb_defused: 'Bomba desactivada',
+  elimination: 'Eliminación',
+  time: 'Se acabó el tiempo',
+  surrender: 'Rendición',
+  other: 'Otro',
+};
+
+const ROUND_REASON_ICONS: Record<RoundWinReason, string> = {
+  bomb_exploded: '💥',
+  bomb_defused: '✂',
+  elimination: '☠',
+  time: '⏱',
+  surrender: '🏳',
+  other: '•',
+};
+
+/**
+ * Scoreboard del mapa en juego: K/D/A, ADR y HS% por jugador + timeline de rondas.
+ * Los datos vienen de lobbies/{lobbyId}/live/current (eventos de MatchZy).
+ */
+@Component({
+  standalone: true,
+  selector: 'app-live-scoreboard',
+  templateUrl: './live-scoreboard.component.html',
+  styleUrl: './live-scoreboard.component.css',
+})
+export class LiveScoreboardComponent {
+  @Input({ required: true }) live!: LiveScoreboard;
+  @Input({ required: true }) match!: MatchDoc;
+  @Input() mySteamId: string | null = null;
+
+  readonly teams = ['team1', 'team2'] as const;
+
+  teamName(team: 'team1' | 'team2'): string {
+    return this.match?.[team]?.name ?? (team === 'team1' ? 'Team A' : 'Team B');
+  }
+
+  get mapName(): string {
+    return this.match?.maplist?.[this.live.mapNumber] ?? this.match?.map ?? '';
+  }
+
+  /** Jugadores de un equipo con K/D/A, ADR y HS% (ordenados por kills) */
+  scoreRows(team: 'team1' | 'team2'): ScoreRow[] {
+    const rounds = Math.max(this.live.roundsPlayed, 1);
+    return Object.entries(this.live.players)
+      .filter(([, p]) => p.team === team)
+      .map(([steamId, p]) => ({
+        steamId,
+        name: p.name,
+        kills: p.kills,
+        deaths: p.deaths,
+        assists: p.assists,
+        adr: Math.round(p.damage / rounds),
+        hsPct: p.kills > 0 ? Math.round((p.headshotKills / p.kills) * 100) : 0,
+      }))
+      .sort((a, b) => b.kills - a.kills || a.deaths - b.deaths);
+  }
+
+  roundIcon(round: RoundResult): string {
+    return ROUND_REASON_ICONS[round.reason] ?? ROUND_REASON_ICONS.other;
+  }
+
+  roundTitle(round: RoundResult): string {
+    const team = round.winner ? this.match?.[round.winner]?.name : null;
+    const side = round.side ? ` (${round.side.toUpperCase()})` : '';
+    const reason = ROUND_REASON_LABELS[round.reason] ?? ROUND_REASON_LABELS.other;
+    return `Ronda ${round.round}: ${team ?? '?'}${side} — ${reason}`;
+  }
+}
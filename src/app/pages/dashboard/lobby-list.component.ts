@@ -0,0 +1,43 @@
+import { AsyncPipe } from '@angular/common';
+import { Component, Input, inject } from '@angular/core';
+import { MatchService } from '../../core/match/match.service';
+
+@Component({
+  standalone: true,
+  selector: 'app-lobby-list',
+  imports: [AsyncPipe],
+  templateUrl: './lobby-list.component.html',
+  styleUrl: './lobby-list.component.css',
+})
+export class LobbyListComponent {
+  private matchSvc = inject(MatchService);
+
+  @Input() mySteamId: string | null = null;
+
+  lobbies$ = this.matchSvc.lobbies$;
+  lobbyId$ = this.matchSvc.lobbyId$;
+
+  newName = '';
+  busy = false;
+  err = '';
+
+  select(lobbyId: string): void {
+    this.matchSvc.selectLobby(lobbyId);
+  }
+
+  async create(): Promise<void> {
+    const name = this.newName.trim();
+    if (!name || this.busy) return;
+
+    try {
+      this.busy = true;
+      this.err = '';
+      await this.matchSvc.createLobby(name);
+      this.newName = '';
+    } catch (e: any) {
+      this.err = e?.message ?? String(e);
+    } finally {
+      this.busy = false;
+    }
+  }
+}
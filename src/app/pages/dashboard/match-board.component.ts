@@ -1,27 +1,27 @@
 import { AsyncPipe } from '@angular/common';
 import { Component, Input, NgZone, inject } from '@angular/core';
 import { doc, onSnapshot } from 'firebase/firestore';
-import { Observable, of, shareReplay } from 'rxjs';
-import { MatchDoc } from '../../core/match/match.service';
-import { MatchService } from '../../core/match/match.service';
+import { Observable, combineLatest, map, of, shareReplay, timer } from 'rxjs';
+import { CaptainStrategy, MatchDoc, SideChoice, SideSlot, VetoLogEntry } from '../../core/match/match.service';
+import { MatchService, ServerConnection, phaseDeadline } from '../../core/match/match.service';
+import { PRESENCE_AWAY_MS, lobbySizeOf } from '../../core/match/match.service';
+import { LiveScoreboard } from '../../core/match/match.service';
 import { db } from '../../core/firebase/firebase';
+import { LiveScoreboardComponent } from './live-scoreboard.component';
 
 type SteamMe = {
   steamId: string;
   personaName: string;
   avatar: string;
   profileUrl: string;
-};
-
-type ServerConnection = {
-  connectUrl: string;
-  spectateUrl: string;
+  // rating Elo (lo escribe el backend al registrar resultados)
+  rating?: { value: number; games: number; provisional: boolean } | null;
 };
 
 @Component({
   standalone: true,
   selector: 'app-match-board',
-  imports: [AsyncPipe],
+  imports: [AsyncPipe, LiveScoreboardComponent],
   templateUrl: './match-board.component.html',
   styleUrl: './match-board.component.css',
 })
@@ -30,7 +30,7 @@ export class MatchBoardComponent {
   private zone = inject(NgZone);
   private profileCache = new Map<string, Observable<SteamMe | null>>();
 
-  readonly mapPool = [
+  private readonly defaultMapPool = [
     'de_inferno',
     'de_mirage',
     'de_nuke',
@@ -40,6 +40,12 @@ export class MatchBoardComponent {
     'de_anubis',
   ];
 
+  // pool del modo del lobby (wingman tiene el suyo)
+  get mapPool(): string[] {
+    const pool = this.match?.mapPool ?? [];
+    return pool.length > 0 ? pool : this.defaultMapPool;
+  }
+
   private matchValue!: MatchDoc;
   @Input({ required: true }) set match(value: MatchDoc) {
     this.matchValue = value;
@@ -61,12 +67,39 @@ export class MatchBoardComponent {
   // UI state local
   busyPick = false;
   pickErr = '';
-  busyBan = false;
-  banErr = '';
+  busyVeto = false;
+  vetoErr = '';
   busyFinalize = false;
   finalizeErr = '';
+  busyPremade = false;
+  premadeErr = '';
+  busyVolunteer = false;
+  busySide = false;
+  sideErr = '';
+  busyReady = false;
+  readyErr = '';
+
+  // reloj para las cuentas regresivas de cada fase
+  readonly clock$ = timer(0, 1000).pipe(map(() => Date.now()));
+
+  // en cola pero sin latir hace más de PRESENCE_AWAY_MS (el backend los saca al rato)
+  readonly away$: Observable<Set<string>> = combineLatest([
+    this.matchSvc.presence$,
+    this.clock$,
+  ]).pipe(
+    map(([presence, now]) => {
+      const away = this.queue.filter(
+        (id) => presence[id] !== undefined && now - presence[id] > PRESENCE_AWAY_MS
+      );
+      return new Set(away);
+    })
+  );
+  // scoreboard del match en curso (eventos de MatchZy, realtime)
+  readonly live$ = this.matchSvc.live$;
+
   busyCancel = false;
   cancelErr = '';
+  cancelReason = '';
 
   get teamA() {
     return this.match?.team1?.players ?? [];
@@ -78,6 +111,14 @@ export class MatchBoardComponent {
     return this.match?.queue ?? [];
   }
 
+  get lobbySize(): number {
+    return lobbySizeOf(this.match);
+  }
+
+  get modeLabel(): string {
+    return this.match?.mode === 'wingman' ? 'Wingman 2v2' : (this.match?.mode ?? '5v5');
+  }
+
   get unassigned(): string[] {
     const anyMatch: any = this.match as any;
     return Array.isArray(anyMatch.unassigned) ? anyMatch.unassigned : [];
@@ -96,6 +137,13 @@ export class MatchBoardComponent {
     return t === 'team2' ? 'team2' : 'team1';
   }
 
+  /** Picks que faltan según pickOrder (el primero es el turno actual) */
+  get upcomingPicks(): ('team1' | 'team2')[] {
+    const order = this.match?.pickOrder ?? [];
+    const picked = this.teamA.length + this.teamB.length - 2;
+    return order.slice(Math.max(picked, 0));
+  }
+
   get mapTurn(): 'team1' | 'team2' {
     return this.match?.mapTurn === 'team2' ? 'team2' : 'team1';
   }
@@ -104,6 +152,88 @@ export class MatchBoardComponent {
     return Array.isArray(this.match?.finalizeBy) ? this.match.finalizeBy : [];
   }
 
+  get isBalanced(): boolean {
+    return this.match?.settings?.teamFormation === 'balanced';
+  }
+
+  get premadeRequests(): Record<string, string> {
+    return this.match?.premadeRequests ?? {};
+  }
+
+  /** Puedo pedir premade con otros de la cola? */
+  get canPremade(): boolean {
+    if (this.match?.estado !== 'esperando_jugadores' || !this.isBalanced) return false;
+    return !!this.mySteamId && this.queue.includes(this.mySteamId);
+  }
+
+  premadeState(id: string): 'none' | 'requested' | 'mutual' {
+    if (!this.mySteamId || this.premadeRequests[this.mySteamId] !== id) return 'none';
+    return this.premadeRequests[id] === this.mySteamId ? 'mutual' : 'requested';
+  }
+
+  get readyAccepted(): string[] {
+    return this.match?.readyAccepted ?? [];
+  }
+
+  hasAccepted(id: string): boolean {
+    return this.readyAccepted.includes(id);
+  }
+
+  /** Estoy en la cola y todavía no acepté el ready check */
+  get canAcceptReady(): boolean {
+    if (this.match?.estado !== 'confirmando_jugadores' || !this.mySteamId) return false;
+    return this.queue.includes(this.mySteamId) && !this.hasAccepted(this.mySteamId);
+  }
+
+  /** Qué pasa cuando vence el plazo de la fase actual */
+  get deadlineHint(): string {
+    switch (this.match?.estado) {
+      case 'confirmando_jugadores':
+        return 'los que no acepten salen de la cola';
+      case 'seleccionando_lideres':
+        return this.isBalanced ? 'se arman los equipos' : 'se eligen los líderes';
+      case 'armando_equipos':
+        return 'si no pickea, se elige al mejor rating disponible';
+      case 'seleccionando_mapa':
+        return 'si no elige, se vota un mapa al azar';
+      case 'eligiendo_lados':
+        return 'si no elige, queda cuchillo';
+      default:
+        return '';
+    }
+  }
+
+  /** Segundos que quedan del plazo de la fase actual (null si no tiene plazo) */
+  secondsLeft(now: number): number | null {
+    const deadline = phaseDeadline(this.match);
+    if (!deadline) return null;
+    return Math.max(0, Math.ceil((deadline.toMillis() - now) / 1000));
+  }
+
+  get isVolunteer(): boolean {
+    return !!this.mySteamId && (this.match?.captainVolunteers ?? []).includes(this.mySteamId);
+  }
+
+  /** "Quiero ser líder": solo cuenta con la estrategia volunteers */
+  get canVolunteer(): boolean {
+    if (this.match?.estado !== 'esperando_jugadores') return false;
+    if (this.match?.settings?.captainStrategy !== 'volunteers') return false;
+    return !!this.mySteamId && this.queue.includes(this.mySteamId);
+  }
+
+  strategyLabel(strategy: CaptainStrategy): string {
+    switch (strategy) {
+      case 'rating':
+        return 'mejor rating';
+      case 'volunteers':
+        return 'voluntarios';
+      case 'least_recent':
+        return 'menos recientes';
+      default:
+        return 'al azar';
+    }
+  }
+
   isLeaderA(id: string): boolean {
     return !!id && id === this.leaderAId;
   }
@@ -121,8 +251,8 @@ export class MatchBoardComponent {
     return this.mySteamId === this.leaderBId;
   }
 
-  /** Soy líder y es mi turno para banear? */
-  get canBan(): boolean {
+  /** Soy líder y es mi turno en el veto? */
+  get canVeto(): boolean {
     if (this.match?.estado !== 'seleccionando_mapa') return false;
     if (this.match?.map) return false;
     if (!this.mySteamId) return false;
@@ -161,6 +291,68 @@ export class MatchBoardComponent {
     return this.bannedMaps.includes(mapName);
   }
 
+  get vetoLog(): VetoLogEntry[] {
+    return Array.isArray(this.match?.vetoLog) ? this.match.vetoLog : [];
+  }
+
+  isPicked(mapName: string): boolean {
+    return this.vetoLog.some((e) => e.map === mapName && e.action === 'pick');
+  }
+
+  isVetoed(mapName: string): boolean {
+    return this.vetoLog.some((e) => e.map === mapName) || this.isBanned(mapName);
+  }
+
+  get mapAction(): 'ban' | 'pick' {
+    return this.match?.mapAction === 'pick' ? 'pick' : 'ban';
+  }
+
+  get sideSlots(): SideSlot[] {
+    return Array.isArray(this.match?.sideSlots) ? this.match.sideSlots : [];
+  }
+
+  get pendingSide(): SideSlot | null {
+    return this.sideSlots.find((slot) => !slot.side) ?? null;
+  }
+
+  /** Soy el líder del equipo que elige lado en el mapa pendiente? */
+  get canChooseSide(): boolean {
+    if (this.match?.estado !== 'eligiendo_lados') return false;
+    const pending = this.pendingSide;
+    if (!pending || !this.mySteamId) return false;
+    return this.mySteamId === (pending.chooser === 'team1' ? this.leaderAId : this.leaderBId);
+  }
+
+  teamName(team: 'team1' | 'team2'): string {
+    if (team === 'team1') return this.match?.team1?.name ?? 'Team A';
+    return this.match?.team2?.name ?? 'Team B';
+  }
+
+  sideLabel(slot: SideSlot): string {
+    if (!slot.side) return 'pendiente';
+    if (slot.side === 'knife') return 'Cuchillo';
+    const [team, side] = slot.side.split('_') as ['team1' | 'team2', 'ct' | 't'];
+    return `${this.teamName(team)} ${side.toUpperCase()}`;
+  }
+
+  get mapsLabel(): string {
+    if (this.match?.maplist?.length) return this.match.maplist.join(' / ');
+    return this.match?.map ?? 'Mapa no definido';
+  }
+
+  liveMapName(live: LiveScoreboard): string {
+    return this.match?.maplist?.[live.mapNumber] ?? this.match?.map ?? '';
+  }
+
+  halfLabel(live: LiveScoreboard): string {
+    const half = live.half === 2 ? '2da mitad' : '1ra mitad';
+    return live.overtime > 0 ? `OT${live.overtime} · ${half}` : half;
+  }
+
+  get seriesLabel(): string {
+    return (this.match?.seriesFormat ?? 'bo1').toUpperCase();
+  }
+
   /** Lista de disponibles en el centro */
   get availableIds(): string[] {
     const list = this.unassigned.length ? this.unassigned : this.queue;
@@ -183,6 +375,12 @@ export class MatchBoardComponent {
     return this.fallbackAvatar;
   }
 
+  ratingLabel(profile: SteamMe | null): string | null {
+    const rating = profile?.rating;
+    if (!rating || !Number.isFinite(rating.value)) return null;
+    return rating.provisional ? `${rating.value}?` : String(rating.value);
+  }
+
   displayName(profile: SteamMe | null): string {
     if (profile?.personaName?.trim()) {
       return profile.personaName;
@@ -215,6 +413,7 @@ export class MatchBoardComponent {
             personaName: data.personaName ?? '',
             avatar: data.avatar ?? '',
             profileUrl: data.profileUrl ?? '',
+            rating: data.rating ?? null,
           };
           if (!normalized.steamId) {
             this.zone.run(() => subscriber.next(null));
@@ -233,19 +432,75 @@ export class MatchBoardComponent {
     return stream;
   }
 
-  async onBanMap(mapName: string): Promise<void> {
-    if (!this.canBan || this.busyBan) return;
-    if (!mapName || this.isBanned(mapName)) return;
+  async onVetoMap(mapName: string): Promise<void> {
+    if (!this.canVeto || this.busyVeto) return;
+    if (!mapName || this.isVetoed(mapName)) return;
 
     try {
-      this.busyBan = true;
-      this.banErr = '';
+      this.busyVeto = true;
+      this.vetoErr = '';
+
+      await this.matchSvc.vetoMap(this.mySteamId!, mapName);
+    } catch (e: any) {
+      this.vetoErr = e?.message ?? String(e);
+    } finally {
+      this.busyVeto = false;
+    }
+  }
 
-      await this.matchSvc.banMap(this.mySteamId!, mapName);
+  async onPremade(id: string): Promise<void> {
+    if (!this.canPremade || this.busyPremade || id === this.mySteamId) return;
+
+    try {
+      this.busyPremade = true;
+      this.premadeErr = '';
+      await this.matchSvc.setPremade(this.premadeState(id) === 'none' ? id : null);
+    } catch (e: any) {
+      this.premadeErr = e?.message ?? String(e);
+    } finally {
+      this.busyPremade = false;
+    }
+  }
+
+  async onChooseSide(side: SideChoice): Promise<void> {
+    if (!this.canChooseSide || this.busySide) return;
+
+    try {
+      this.busySide = true;
+      this.sideErr = '';
+      await this.matchSvc.chooseSide(side);
+    } catch (e: any) {
+      this.sideErr = e?.message ?? String(e);
+    } finally {
+      this.busySide = false;
+    }
+  }
+
+  async onAcceptReady(): Promise<void> {
+    if (!this.canAcceptReady || this.busyReady) return;
+
+    try {
+      this.busyReady = true;
+      this.readyErr = '';
+      await this.matchSvc.acceptReadyCheck();
+    } catch (e: any) {
+      this.readyErr = e?.message ?? String(e);
+    } finally {
+      this.busyReady = false;
+    }
+  }
+
+  async onVolunteer(): Promise<void> {
+    if (!this.canVolunteer || this.busyVolunteer) return;
+
+    try {
+      this.busyVolunteer = true;
+      this.premadeErr = '';
+      await this.matchSvc.setCaptainVolunteer(!this.isVolunteer);
     } catch (e: any) {
-      this.banErr = e?.message ?? String(e);
+      this.premadeErr = e?.message ?? String(e);
     } finally {
-      this.busyBan = false;
+      this.busyVolunteer = false;
     }
   }
 
@@ -286,7 +541,8 @@ export class MatchBoardComponent {
     try {
       this.busyCancel = true;
       this.cancelErr = '';
-      await this.matchSvc.cancelMatch();
+      await this.matchSvc.cancelMatch(this.cancelReason.trim());
+      this.cancelReason = '';
     } catch (e: any) {
       this.cancelErr = e?.message ?? String(e);
     } finally {
@@ -0,0 +1,108 @@
+import { AsyncPipe, DatePipe } from '@angular/common';
+import { ChangeDetectorRef, Component, NgZone, OnInit, inject } from '@angular/core';
+import { doc, getDoc } from 'firebase/firestore';
+import { HistoryService, MatchDemo, MatchHistoryEntry } from '../../core/history/history.service';
+import { db } from '../../core/firebase/firebase';
+
+@Component({
+  standalone: true,
+  selector: 'app-match-history',
+  imports: [AsyncPipe, DatePipe],
+  templateUrl: './match-history.component.html',
+  styleUrl: './match-history.component.css',
+})
+export class MatchHistoryComponent implements OnInit {
+  private historySvc = inject(HistoryService);
+  private zone = inject(NgZone);
+  private cdr = inject(ChangeDetectorRef);
+  private nameCache = new Map<string, Promise<string>>();
+
+  items: MatchHistoryEntry[] = [];
+  nextCursor: string | null = null;
+  loading = false;
+  loaded = false;
+  err = '';
+  expandedId: string | null = null;
+  demoErr = '';
+
+  ngOnInit(): void {
+    this.loadMore().catch(() => {});
+  }
+
+  async loadMore(): Promise<void> {
+    if (this.loading) return;
+    if (this.loaded && !this.nextCursor) return;
+
+    this.loading = true;
+    this.err = '';
+    try {
+      const page = await this.historySvc.listPage(this.nextCursor);
+      this.zone.run(() => {
+        this.items = [...this.items, ...page.items];
+        this.nextCursor = page.nextCursor;
+        this.loaded = true;
+      });
+    } catch (e: any) {
+      this.zone.run(() => {
+        this.err = e?.message ?? String(e);
+      });
+    } finally {
+      this.zone.run(() => {
+        this.loading = false;
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  toggle(matchId: string): void {
+    this.expandedId = this.expandedId === matchId ? null : matchId;
+  }
+
+  mapsLabel(entry: MatchHistoryEntry): string {
+    if (entry.maplist?.length) return entry.maplist.join(' / ');
+    return entry.map ?? '—';
+  }
+
+  demoLabel(demo: MatchDemo): string {
+    const parts = [`Mapa ${demo.mapNumber + 1}`];
+    if (demo.map) parts.push(demo.map);
+    if (demo.durationSec) parts.push(`${Math.round(demo.durationSec / 60)} min`);
+    parts.push(`${(demo.size / (1024 * 1024)).toFixed(1)} MB`);
+    return parts.join(' · ');
+  }
+
+  async downloadDemo(demo: MatchDemo): Promise<void> {
+    this.demoErr = '';
+    try {
+      const url = await this.historySvc.demoUrl(demo);
+      window.location.assign(url);
+    } catch (e: any) {
+      this.zone.run(() => {
+        this.demoErr = e?.message ?? String(e);
+        this.cdr.detectChanges();
+      });
+    }
+  }
+
+  outcomeLabel(entry: MatchHistoryEntry): string {
+    if (entry.outcome === 'cancelled') return 'Cancelado';
+    if (entry.winner === 'team1') return `Ganó ${entry.team1?.name ?? 'Team A'}`;
+    if (entry.winner === 'team2') return `Ganó ${entry.team2?.name ?? 'Team B'}`;
+    return 'Finalizado';
+  }
+
+  /** personaName desde steamProfiles (una lectura por steamId) */
+  name$(steamId: string): Promise<string> {
+    const cached = this.nameCache.get(steamId);
+    if (cached) return cached;
+
+    const p = getDoc(doc(db, 'steamProfiles', steamId))
+      .then((snap) => {
+        const personaName = (snap.data() as { personaName?: string } | undefined)?.personaName;
+        return personaName?.trim() || steamId;
+      })
+      .catch(() => steamId);
+    this.nameCache.set(steamId, p);
+    return p;
+  }
+}